@@ -0,0 +1,134 @@
+import { Obstacle } from "./coliseum-interface";
+import { Position } from "./simulation";
+
+// Maps (static obstacles and spawn points), including the JSON map file format
+
+export interface ArenaMap {
+    name: string;
+
+    /** Obstacles block robots and stop projectiles */
+    obstacles: Obstacle[];
+
+    /**
+     * Where robots start. Robots are assigned spawn points spread evenly through this list (starting from a random
+     * point), so opposing positions should be half of the list apart. If there are fewer spawn points than robots,
+     * robots start at random positions instead.
+     */
+    spawnPoints: Position[];
+}
+
+export const emptyMap: ArenaMap = {
+    name: "Open Field",
+    obstacles: [],
+    spawnPoints: [],
+};
+
+export const builtInMaps: ArenaMap[] = [
+    emptyMap,
+    {
+        name: "Pillars",
+        obstacles: [
+            { type: "circle", x: -5, y: -5, radius: 1.5 },
+            { type: "circle", x: 5, y: -5, radius: 1.5 },
+            { type: "circle", x: 5, y: 5, radius: 1.5 },
+            { type: "circle", x: -5, y: 5, radius: 1.5 },
+        ],
+        spawnPoints: [
+            { x: -8, y: 0 },
+            { x: 0, y: -8 },
+            { x: 8, y: 0 },
+            { x: 0, y: 8 },
+        ],
+    },
+    {
+        name: "Great Wall",
+        obstacles: [
+            { type: "rectangle", x: 0, y: 0, width: 1, height: 12 },
+        ],
+        spawnPoints: [
+            { x: -7, y: 0 },
+            { x: -7, y: 7 },
+            { x: 7, y: 0 },
+            { x: 7, y: -7 },
+        ],
+    },
+    {
+        name: "Bunkers",
+        obstacles: [
+            { type: "rectangle", x: -5, y: 0, width: 1, height: 6 },
+            { type: "rectangle", x: 5, y: 0, width: 1, height: 6 },
+            { type: "circle", x: 0, y: 0, radius: 2 },
+            { type: "rectangle", x: 0, y: 7, width: 6, height: 1 },
+            { type: "rectangle", x: 0, y: -7, width: 6, height: 1 },
+        ],
+        spawnPoints: [
+            { x: -8, y: 0 },
+            { x: -8, y: 8 },
+            { x: 0, y: -9 },
+            { x: 8, y: -8 },
+            { x: 8, y: 0 },
+            { x: 8, y: 8 },
+            { x: 0, y: 9 },
+            { x: -8, y: -8 },
+        ],
+    },
+];
+
+function isFiniteNumber(value: any): boolean {
+    return typeof(value) === "number" && isFinite(value);
+}
+
+function isPositiveNumber(value: any): boolean {
+    return isFiniteNumber(value) && value > 0;
+}
+
+function validateObstacle(obstacle: Obstacle, index: number) {
+    const description = `Obstacle ${index + 1}`;
+    if (!obstacle || typeof(obstacle) !== "object" || !isFiniteNumber(obstacle.x) || !isFiniteNumber(obstacle.y)) {
+        throw new Error(`${description} must have numeric "x" and "y" properties`);
+    }
+
+    switch (obstacle.type) {
+        case "circle":
+            if (!isPositiveNumber(obstacle.radius)) {
+                throw new Error(`${description} is a circle, so it must have a positive "radius"`);
+            }
+            break;
+
+        case "rectangle":
+            if (!isPositiveNumber(obstacle.width) || !isPositiveNumber(obstacle.height)) {
+                throw new Error(`${description} is a rectangle, so it must have a positive "width" and "height"`);
+            }
+            break;
+
+        default:
+            throw new Error(`${description} has an unknown type: "${obstacle.type}" (expected "circle" or "rectangle")`);
+    }
+}
+
+/** Parses (and validates) a map file, throwing an Error if the file isn't a valid map */
+export function parseMap(text: string): ArenaMap {
+    let map: ArenaMap;
+    try {
+        map = JSON.parse(text);
+    } catch (error) {
+        throw new Error("Map file is not valid JSON");
+    }
+
+    if (!map || typeof(map) !== "object" || typeof(map.name) !== "string") {
+        throw new Error("File is not a map (maps must have a \"name\")");
+    }
+
+    if (!Array.isArray(map.obstacles) || !Array.isArray(map.spawnPoints)) {
+        throw new Error("Map must have \"obstacles\" and \"spawnPoints\" arrays");
+    }
+
+    map.obstacles.forEach(validateObstacle);
+    map.spawnPoints.forEach((p, index) => {
+        if (!p || !isFiniteNumber(p.x) || !isFiniteNumber(p.y)) {
+            throw new Error(`Spawn point ${index + 1} must have numeric "x" and "y" properties`);
+        }
+    });
+
+    return { name: map.name, obstacles: map.obstacles, spawnPoints: map.spawnPoints };
+}
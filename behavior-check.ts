@@ -0,0 +1,42 @@
+import { builtInMaps } from "./arena-map";
+import { builtInBehaviors } from "./behaviors";
+import { deriveSeed } from "./random";
+import { defaultRules, Simulation, SimulationRules } from "./simulation";
+
+// Plays every pairing of built-in robots under each set of optional rules, checking that no robot throws (e.g. when an
+// enemy can't be seen under sensor rules) (run with "npm run behavior-check")
+
+const matchCount = 20;
+const seed = 1;
+
+const ruleSets: { name: string, rules: SimulationRules }[] = [
+    { name: "default rules", rules: defaultRules },
+    { name: "sensors", rules: { ...defaultRules, sensors: true } },
+    { name: "all rules", rules: { ...defaultRules, energy: true, powerUps: true, sensors: true } },
+];
+
+let failures = 0;
+for (const { name, rules } of ruleSets) {
+    for (const a of builtInBehaviors) {
+        for (const b of builtInBehaviors) {
+            for (let i = 0; i < matchCount; i++) {
+                const matchSeed = deriveSeed(seed, i);
+                const map = builtInMaps[i % builtInMaps.length];
+                try {
+                    const simulation = new Simulation([a.initializer, b.initializer], matchSeed, map, rules);
+                    while (!simulation.finished) {
+                        simulation.update();
+                    }
+                } catch (error) {
+                    failures++;
+                    console.log(`${a.name} vs. ${b.name} (${name}, ${map.name}, seed ${matchSeed}): ${error}`);
+                }
+            }
+        }
+    }
+}
+
+if (failures > 0) {
+    throw new Error(`${failures} match(es) failed`);
+}
+console.log("All built-in robots played every match without errors");
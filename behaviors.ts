@@ -0,0 +1,124 @@
+import { Environment, ProjectileState, RobotState } from "./coliseum-interface";
+import { BotInitializer, Circle, getDistance } from "./simulation";
+
+// Built-in robots (used as opponents in challenges)
+
+export const BehaviorSittingDuck: BotInitializer = () => (() => {});
+export const BehaviorMovingDuck: BotInitializer = () => {
+    let moveDirectionDelta = Math.PI / 100;
+    return function (self: RobotState, environment: Environment) {
+        self.moveDirection += moveDirectionDelta;
+        self.move = true;
+    };
+};
+
+export const BehaviorTurret: BotInitializer = () => {
+    return function (self:RobotState, environment: Environment) {
+        if (environment.enemy) {
+            const enemy = environment.enemy;
+            self.shootDirection = Math.atan2(enemy.y - self.y, enemy.x - self.x);
+            self.shoot = true;
+        } else {
+            self.shoot = false;
+        }
+    };
+};
+
+export const BehaviorMovingTurret: BotInitializer = () => {
+    const period = 60;
+    let timer = period;
+    let direction = Math.PI / 2;
+    return function (self:RobotState, environment: Environment) {
+        if (timer-- <= 0) {
+            timer = period;
+            direction = -direction;
+        }
+        self.moveDirection = direction;
+        self.move = true;
+
+        if (environment.enemy) {
+            const enemy = environment.enemy;
+            self.shootDirection = Math.atan2(enemy.y - self.y, enemy.x - self.x);
+            self.shoot = true;
+        } else {
+            self.shoot = false;
+        }
+    };
+};
+
+interface Line {
+    x: number;
+    y: number;
+    direction: number;
+}
+
+function square(x: number) {
+    return x * x;
+}
+
+function circleIntersectsLine(circle: Circle, line: Line): boolean {
+    const cosine = Math.cos(line.direction);
+    const sine = Math.sin(line.direction)
+    const x1 = line.x - circle.x;
+    const y1 = line.y - circle.y;
+    const x2 = x1 + cosine;
+    const y2 = y1 + sine;
+    const discriminant = square(circle.radius) * (square(cosine) + square(sine)) - square(x1 * y2 - x2 * y1);
+    return discriminant >= 0;
+}
+
+export const BehaviorBoss: BotInitializer = () => {
+    let directionOffset = Math.PI / 2;
+
+    return function (self: RobotState, environment: Environment) {
+        // Leading shots (the enemy may be out of sight under sensor rules)
+        const enemy = environment.enemy;
+        if (enemy) {
+            var d = getDistance(enemy, self);
+            var x = enemy.x + d / 0.5 * enemy.speed * Math.cos(enemy.direction);
+            var y = enemy.y + d / 0.5 * enemy.speed * Math.sin(enemy.direction);
+            self.shootDirection = Math.atan2(y - self.y, x - self.x);
+            self.shoot = true;
+        } else {
+            self.shoot = false;
+        }
+
+        // Dodging
+        let closestProjectile: ProjectileState;
+        let minimumDistance = 1000;
+
+        const projectiles = environment.enemyProjectiles.filter((e) => circleIntersectsLine(self, e));
+
+        for (const p of projectiles) {
+            const distance = getDistance(self, p);
+            if (distance < minimumDistance) {
+                minimumDistance = distance;
+                closestProjectile = p;
+            }
+        }
+
+        if (closestProjectile) {
+            const directionToProjectile = Math.atan2(closestProjectile.y - self.y, closestProjectile.x - self.x);
+            self.moveDirection = directionToProjectile + directionOffset;
+            const nextX = self.x + Math.cos(self.moveDirection);
+            const nextY = self.y + Math.sin(self.moveDirection);
+            if (nextX < environment.bounds.xMin || nextX > environment.bounds.xMax || nextY < environment.bounds.yMin || nextY > environment.bounds.yMax) {
+                directionOffset = -directionOffset;
+                self.moveDirection = directionToProjectile + directionOffset;
+            }
+
+            self.move = true;
+        } else {
+            self.move = false;
+        }
+    };
+};
+
+/** Built-in robots that can be selected as opponents (e.g. in The Arena) */
+export const builtInBehaviors: { name: string, initializer: BotInitializer }[] = [
+    { name: "Sitting Duck", initializer: BehaviorSittingDuck },
+    { name: "Moving Duck", initializer: BehaviorMovingDuck },
+    { name: "Turret", initializer: BehaviorTurret },
+    { name: "Mobile Turret", initializer: BehaviorMovingTurret },
+    { name: "Final Boss", initializer: BehaviorBoss },
+];
@@ -0,0 +1,146 @@
+import * as acorn from "./js-interpreter/acorn.js";
+(globalThis as any).acorn = acorn;
+import { BehaviorTurret } from "./behaviors";
+import { CompiledBot } from "./bot-compiler";
+import { Environment, RobotState } from "./coliseum-interface";
+import { deriveSeed } from "./random";
+import { createBotInterpreter, createHeadlessScriptedBot, defaultStepBudget } from "./scripted-bot";
+import { BotInitializer, defaultRules, Simulation } from "./simulation";
+
+// Measures simulation speed (ticks per second) with scripted robots, e.g. to compare the cost of hosting robot code
+// before and after a change (run with "npm run benchmark"; add "-- --json-round-trip" to also measure the way robots
+// used to be called, for comparison)
+
+declare const process: { argv: string[] };
+const compareWithJsonRoundTrip = process.argv.indexOf("--json-round-trip") >= 0;
+
+const matchCount = 10;
+const seed = 1;
+const rules = { ...defaultRules, timeLimit: 60 };
+
+/** Robot that aims at the nearest enemy and moves away from the nearest enemy projectile (so it reads most of its environment) */
+const exampleCode = `
+function getDistance(a, b) {
+    return Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+}
+
+function think(self, environment) {
+    var enemy = environment.enemy;
+    if (enemy) {
+        self.shootDirection = Math.atan2(enemy.y - self.y, enemy.x - self.x);
+        self.shoot = true;
+    }
+
+    var nearest = null;
+    for (var i = 0; i < environment.enemyProjectiles.length; i++) {
+        var projectile = environment.enemyProjectiles[i];
+        if (!nearest || getDistance(self, projectile) < getDistance(self, nearest)) {
+            nearest = projectile;
+        }
+    }
+
+    self.move = !!nearest;
+    if (nearest) {
+        self.moveDirection = nearest.direction + Math.PI / 2;
+    }
+}
+`;
+
+/** The example is plain ES5, so it doesn't need compiling */
+const exampleBot: CompiledBot = { code: exampleCode, mappings: null };
+
+/**
+ * Creates a robot that's called the way scripted robots used to be called: the state and environment are serialized to
+ * JSON, and a call that parses them, calls "think", and serializes the result is appended as code (and parsed) each tick
+ */
+function createJsonRoundTripBot(bot: CompiledBot, seed: number): BotInitializer {
+    const vm = createBotInterpreter(bot, seed, defaultStepBudget).vm;
+    const run = () => {
+        // Step (rather than run) the interpreter, like the budgeted loop in scripted-bot.ts
+        for (let steps = 0; steps <= defaultStepBudget.thinkSteps; steps++) {
+            if (!vm.step()) {
+                return;
+            }
+        }
+        throw new Error("Step budget exceeded");
+    };
+
+    vm.appendCode(`function __COLISEUM_THINK() {
+        var parsed = JSON.parse(__COLISEUM_STRING);
+        think(parsed.state, parsed.environment);
+        __COLISEUM_STRING = JSON.stringify(parsed);
+    }`);
+    vm.run();
+
+    return () => (self: RobotState, environment: Environment) => {
+        vm.setProperty(vm.global, "__COLISEUM_STRING", JSON.stringify({ state: self, environment }));
+        vm.appendCode("__COLISEUM_THINK();");
+        run();
+
+        const state = JSON.parse(vm.getProperty(vm.global, "__COLISEUM_STRING") as string).state as RobotState;
+        self.shootDirection = state.shootDirection;
+        self.moveDirection = state.moveDirection;
+        self.move = state.move;
+        self.shoot = state.shoot;
+        self.weapon = state.weapon;
+        self.scanDirection = state.scanDirection;
+    };
+}
+
+/** Creates a scripted robot running the example code (given the robot's seed) */
+type ScriptedBotFactory = (seed: number) => BotInitializer;
+
+interface Scenario {
+    name: string;
+    createBots: (matchSeed: number, createScriptedBot: ScriptedBotFactory) => BotInitializer[];
+    scripted: boolean;
+}
+
+const scenarios: Scenario[] = [
+    {
+        name: "Built-in robots (no interpreter)",
+        createBots: () => [BehaviorTurret, BehaviorTurret],
+        scripted: false,
+    },
+    {
+        name: "Scripted robot vs. built-in robot",
+        createBots: (matchSeed, createScriptedBot) => [createScriptedBot(Simulation.getBotSeed(matchSeed, 0)), BehaviorTurret],
+        scripted: true,
+    },
+    {
+        name: "Two scripted robots",
+        createBots: (matchSeed, createScriptedBot) => [0, 1].map(index => createScriptedBot(Simulation.getBotSeed(matchSeed, index))),
+        scripted: true,
+    },
+];
+
+function playMatch(scenario: Scenario, createScriptedBot: ScriptedBotFactory, matchSeed: number): number {
+    const simulation = new Simulation(scenario.createBots(matchSeed, createScriptedBot), matchSeed, undefined, rules);
+    while (!simulation.finished) {
+        simulation.update();
+    }
+    return simulation.tick;
+}
+
+/** Returns the simulation speed (in ticks per second) of the scenario (after an untimed match, to warm up the JIT) */
+function measure(scenario: Scenario, createScriptedBot: ScriptedBotFactory): number {
+    playMatch(scenario, createScriptedBot, deriveSeed(seed, matchCount));
+
+    let ticks = 0;
+    const start = Date.now();
+    for (let i = 0; i < matchCount; i++) {
+        ticks += playMatch(scenario, createScriptedBot, deriveSeed(seed, i));
+    }
+
+    return ticks / ((Date.now() - start) / 1000);
+}
+
+for (const scenario of scenarios) {
+    const rate = measure(scenario, botSeed => createHeadlessScriptedBot(exampleBot, botSeed, defaultStepBudget));
+    if (compareWithJsonRoundTrip && scenario.scripted) {
+        const baselineRate = measure(scenario, botSeed => createJsonRoundTripBot(exampleBot, botSeed));
+        console.log(`${scenario.name}: ${Math.round(rate)} ticks per second (JSON round-trip: ${Math.round(baselineRate)} ticks per second; ${(rate / baselineRate).toFixed(2)}x)`);
+    } else {
+        console.log(`${scenario.name}: ${Math.round(rate)} ticks per second`);
+    }
+}
@@ -0,0 +1,112 @@
+// Robot code written in TypeScript or modern JavaScript, which is compiled down to ES5 (the only version the interpreter
+// runs) by the editor's TypeScript worker on the main thread (see compileBot in main.tsx), and mapped back for errors
+
+/** Language a robot's code is written in ("javascript" is plain ES5, which runs as-is) */
+export type BotLanguage = "javascript" | "modernJavaScript" | "typescript";
+
+export const defaultBotLanguage: BotLanguage = "javascript";
+
+export const botLanguageNames: { [language in BotLanguage]: string } = {
+    javascript: "JavaScript (ES5)",
+    modernJavaScript: "JavaScript (ES2015+)",
+    typescript: "TypeScript",
+};
+
+export function isBotLanguage(value: any): value is BotLanguage {
+    return typeof(value) === "string" && botLanguageNames.hasOwnProperty(value);
+}
+
+/** Thrown when a robot's code can't be compiled (e.g. due to a syntax error) */
+export class BotCompileError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, BotCompileError.prototype);
+    }
+}
+
+/** Position in code (with one-based lines and zero-based columns, like source maps and editors) */
+export interface CodePosition {
+    line: number;
+    column: number;
+}
+
+function getPosition(code: string, offset: number): CodePosition {
+    const lines = code.substr(0, offset).split("\n");
+    return { line: lines.length, column: lines[lines.length - 1].length };
+}
+
+const base64Digits = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Decodes a line of Base64 VLQ segments from a source map's "mappings" */
+function decodeSegments(text: string): number[][] {
+    return text.split(",").filter(s => s.length > 0).map(segment => {
+        const values: number[] = [];
+        let value = 0;
+        let shift = 0;
+        for (let i = 0; i < segment.length; i++) {
+            const digit = base64Digits.indexOf(segment[i]);
+            value += (digit & 31) << shift;
+            if (digit & 32) {
+                shift += 5;
+            } else {
+                // The lowest bit is the sign
+                values.push((value & 1) ? -(value >> 1) : (value >> 1));
+                value = 0;
+                shift = 0;
+            }
+        }
+        return values;
+    });
+}
+
+/** Maps positions in compiled code back to positions in the original code (using a version 3 source map) */
+export class SourceMap {
+    /** For each compiled line, mappings of compiled columns to original positions (sorted by column) */
+    private lines: { column: number, original: CodePosition }[][] = [];
+
+    constructor(mappings: string) {
+        // Fields in each segment are relative to the previous segment (the compiled column resets on each line)
+        let sourceLine = 0;
+        let sourceColumn = 0;
+        for (const text of mappings.split(";")) {
+            let column = 0;
+            const line: { column: number, original: CodePosition }[] = [];
+            for (const values of decodeSegments(text)) {
+                column += values[0];
+                if (values.length >= 4) {
+                    sourceLine += values[2];
+                    sourceColumn += values[3];
+                    line.push({ column, original: { line: sourceLine + 1, column: sourceColumn } });
+                }
+            }
+            this.lines.push(line);
+        }
+    }
+
+    /** Returns the original position of the closest mapped position at or before the given one (or null if none) */
+    public getOriginalPosition(position: CodePosition): CodePosition | null {
+        for (let line = position.line - 1; line >= 0; line--) {
+            const segments = (this.lines[line] || []).filter(s => line < position.line - 1 || s.column <= position.column);
+            if (segments.length > 0) {
+                return segments[segments.length - 1].original;
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Code that's ready for the interpreter, along with the "mappings" of a source map back to the original code (if the code
+ * was compiled); this is plain data, so it can be sent to a robot's worker
+ */
+export interface CompiledBot {
+    code: string;
+    mappings: string | null;
+}
+
+/** Describes the location (in the robot's original code) of the given offset in its compiled code, e.g. "line 12" */
+export function describeLocation(bot: CompiledBot, offset: number): string | null {
+    const position = getPosition(bot.code, offset);
+    const original = (bot.mappings !== null) ? new SourceMap(bot.mappings).getOriginalPosition(position) : position;
+    return original ? `line ${original.line}` : null;
+}
@@ -0,0 +1,64 @@
+import { CompiledBot } from "./bot-compiler";
+import { Environment, RobotState } from "./coliseum-interface";
+import { DebugShape, LogMessage, StepBudget } from "./scripted-bot";
+
+// Messages exchanged between the main thread (worker-bot.ts) and a robot's worker (bot-worker.ts)
+
+export interface InitializeRequest {
+    type: "initialize";
+
+    /** Robot's code (already compiled on the main thread, so that workers don't need the compiler) */
+    bot: CompiledBot;
+    seed: number;
+    budget: StepBudget;
+}
+
+export interface ThinkRequest {
+    type: "think";
+
+    /** Identifies the request (responses to requests that missed their deadline are ignored) */
+    id: number;
+    state: RobotState;
+    environment: Environment;
+}
+
+export type WorkerRequest = InitializeRequest | ThinkRequest;
+
+export interface InitializedResponse {
+    type: "initialized";
+
+    /** Console output written by the robot's code while initializing */
+    messages: LogMessage[];
+}
+
+export interface ThoughtResponse {
+    type: "thought";
+    id: number;
+    state: RobotState;
+
+    /** Description of the step budget overrun, if the robot's turn was skipped */
+    overrun: string | null;
+
+    /** Console output written by the robot's code during this tick */
+    messages: LogMessage[];
+
+    /** Debug drawing from this tick */
+    shapes: DebugShape[];
+}
+
+export interface ErrorResponse {
+    type: "error";
+
+    /** Id of the think request that failed (or null if initialization failed) */
+    id: number | null;
+    name: string;
+    message: string;
+
+    /** True if the robot forfeits the match */
+    forfeit: boolean;
+
+    /** Console output written by the robot's code before the error */
+    messages: LogMessage[];
+}
+
+export type WorkerResponse = InitializedResponse | ThoughtResponse | ErrorResponse;
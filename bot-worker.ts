@@ -0,0 +1,63 @@
+import * as acorn from "./js-interpreter/acorn.js";
+(self as any).acorn = acorn;
+import { WorkerRequest, WorkerResponse } from "./bot-worker-protocol";
+import { BotConsole, BotDebugDrawing, createBotInterpreter, createScriptedBotInitializer } from "./scripted-bot";
+import { BotForfeitError, BotThinkHandler } from "./simulation";
+
+// Web Worker that hosts a single robot's interpreter (so that robot code runs off of the main thread)
+
+const context: Worker = self as any;
+let think: BotThinkHandler = null;
+let overrun: string | null = null;
+const botConsole = new BotConsole();
+const botDrawing = new BotDebugDrawing();
+
+function respond(response: WorkerResponse) {
+    context.postMessage(response);
+}
+
+function respondWithError(id: number | null, error: any) {
+    respond({
+        type: "error",
+        id,
+        name: (error && error.name) || "Error",
+        message: (error && error.message !== undefined) ? error.message : String(error),
+        forfeit: error instanceof BotForfeitError,
+        messages: botConsole.takeMessages(),
+    });
+}
+
+context.onmessage = (event: MessageEvent) => {
+    const request = event.data as WorkerRequest;
+    switch (request.type) {
+        case "initialize":
+            try {
+                const program = createBotInterpreter(request.bot, request.seed, request.budget, botConsole, botDrawing);
+                think = createScriptedBotInitializer(program, request.budget, (error) => { overrun = error.message; })();
+                respond({ type: "initialized", messages: botConsole.takeMessages() });
+            } catch (error) {
+                respondWithError(null, error);
+            }
+            break;
+
+        case "think":
+            overrun = null;
+
+            // Discard any drawing from before this call (i.e. from initialization or a call that failed)
+            botDrawing.takeShapes();
+            try {
+                think(request.state, request.environment);
+                respond({
+                    type: "thought",
+                    id: request.id,
+                    state: request.state,
+                    overrun,
+                    messages: botConsole.takeMessages(),
+                    shapes: botDrawing.takeShapes(),
+                });
+            } catch (error) {
+                respondWithError(request.id, error);
+            }
+            break;
+    }
+};
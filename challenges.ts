@@ -0,0 +1,229 @@
+import { ArenaMap, builtInMaps, emptyMap } from "./arena-map";
+import { builtInBehaviors } from "./behaviors";
+import { BotInitializer, defaultRules, Ship, Simulation, SimulationRules } from "./simulation";
+
+// Challenge definitions (opponent, map, rules, time limit, and win condition) and judging of challenge matches
+
+/** Destroy the opponent */
+export interface DestroyCondition {
+    type: "destroy";
+}
+
+/** Win with more than the given fraction of health remaining */
+export interface HealthCondition {
+    type: "winWithHealth";
+    healthAbove: number;
+}
+
+/** Destroy the opponent within the given number of seconds */
+export interface QuickWinCondition {
+    type: "winWithin";
+    seconds: number;
+}
+
+/** Survive for the given number of seconds without firing a single shot */
+export interface SurvivalCondition {
+    type: "surviveWithoutShooting";
+    seconds: number;
+}
+
+export type WinCondition = DestroyCondition | HealthCondition | QuickWinCondition | SurvivalCondition;
+
+export interface ChallengeDefinition {
+    /** Identifies the challenge in saved progress (so it should never change) */
+    id: string;
+    title: string;
+
+    /** Name of the opponent (one of builtInBehaviors) */
+    opponent: string;
+
+    /** Name of the map (one of builtInMaps; the open field if omitted) */
+    map?: string;
+
+    /** Rules to turn on (none if omitted) */
+    rules?: Partial<SimulationRules>;
+
+    /**
+     * Match length limit (in seconds; see SimulationRules.timeLimit, whose default doesn't apply to challenges); the
+     * challenge is failed if time runs out before the win condition is met
+     */
+    timeLimit: number;
+    winCondition: WinCondition;
+}
+
+/** Built-in challenges (in the order they're unlocked) */
+export const builtInChallenges: ChallengeDefinition[] = [
+    {
+        id: "sitting-duck",
+        title: "Sitting Duck",
+        opponent: "Sitting Duck",
+        timeLimit: 60,
+        winCondition: { type: "destroy" },
+    },
+    {
+        id: "moving-duck",
+        title: "Moving Duck",
+        opponent: "Moving Duck",
+        timeLimit: 90,
+        winCondition: { type: "destroy" },
+    },
+    {
+        id: "turret",
+        title: "Turret",
+        opponent: "Turret",
+        timeLimit: 90,
+        winCondition: { type: "destroy" },
+    },
+    {
+        id: "mobile-turret",
+        title: "Mobile Turret",
+        opponent: "Mobile Turret",
+        timeLimit: 120,
+        winCondition: { type: "destroy" },
+    },
+    {
+        id: "sharpshooter",
+        title: "Sharpshooter",
+        opponent: "Mobile Turret",
+        map: "Pillars",
+        rules: { energy: true },
+        timeLimit: 120,
+        winCondition: { type: "winWithHealth", healthAbove: 0.5 },
+    },
+    {
+        id: "blitz",
+        title: "Blitz",
+        opponent: "Moving Duck",
+        map: "Bunkers",
+        timeLimit: 30,
+        winCondition: { type: "winWithin", seconds: 20 },
+    },
+    {
+        id: "pacifist",
+        title: "Pacifist",
+        opponent: "Turret",
+        map: "Great Wall",
+        timeLimit: 60,
+        winCondition: { type: "surviveWithoutShooting", seconds: 30 },
+    },
+    {
+        id: "final-boss",
+        title: "Final Boss",
+        opponent: "Final Boss",
+        timeLimit: 180,
+        winCondition: { type: "destroy" },
+    },
+];
+
+export function getChallenge(id: string): ChallengeDefinition {
+    const challenge = builtInChallenges.find(c => c.id === id);
+    if (!challenge) {
+        throw new Error(`Unknown challenge: "${id}"`);
+    }
+    return challenge;
+}
+
+export function getChallengeOpponent(challenge: ChallengeDefinition): BotInitializer {
+    const behavior = builtInBehaviors.find(b => b.name === challenge.opponent);
+    if (!behavior) {
+        throw new Error(`Unknown opponent in challenge "${challenge.title}": "${challenge.opponent}"`);
+    }
+    return behavior.initializer;
+}
+
+export function getChallengeMap(challenge: ChallengeDefinition): ArenaMap {
+    if (challenge.map === undefined) {
+        return emptyMap;
+    }
+
+    const map = builtInMaps.find(m => m.name === challenge.map);
+    if (!map) {
+        throw new Error(`Unknown map in challenge "${challenge.title}": "${challenge.map}"`);
+    }
+    return map;
+}
+
+export function getChallengeRules(challenge: ChallengeDefinition): SimulationRules {
+    return { ...defaultRules, ...challenge.rules, timeLimit: challenge.timeLimit };
+}
+
+/** Describes what's needed to complete the challenge (e.g. "Win within 20 seconds") */
+export function describeChallenge(challenge: ChallengeDefinition): string {
+    const condition = challenge.winCondition;
+    let description: string;
+    switch (condition.type) {
+        case "destroy": description = "Destroy the opponent"; break;
+        case "winWithHealth": description = `Win with more than ${Math.round(condition.healthAbove * 100)}% of your health remaining`; break;
+        case "winWithin": description = `Win within ${condition.seconds} seconds`; break;
+        case "surviveWithoutShooting": description = `Survive for ${condition.seconds} seconds without shooting`; break;
+    }
+
+    return `${description} (time limit: ${challenge.timeLimit} seconds)`;
+}
+
+export interface ChallengeOutcome {
+    completed: boolean;
+
+    /** Explanation of the outcome (e.g. "You won, but took too long") */
+    message: string;
+}
+
+/** Decides whether a challenge match has been won or lost (checking the match after each tick) */
+export class ChallengeJudge {
+    private outcome: ChallengeOutcome | null = null;
+
+    constructor(private challenge: ChallengeDefinition, private playerIndex: number) {
+    }
+
+    /** Returns the outcome once the challenge has been decided (or null while undecided) */
+    public update(simulation: Simulation): ChallengeOutcome | null {
+        if (!this.outcome) {
+            this.outcome = this.judge(simulation);
+        }
+        return this.outcome;
+    }
+
+    private judge(simulation: Simulation): ChallengeOutcome | null {
+        const condition = this.challenge.winCondition;
+        const player = simulation.bots[this.playerIndex];
+        const seconds = Math.max(0, simulation.tick - Simulation.startTimerPeriod) / Simulation.ticksPerSecond;
+        const succeed = (message: string) => ({ completed: true, message });
+        const fail = (message: string) => ({ completed: false, message });
+
+        if (condition.type === "surviveWithoutShooting") {
+            if (player.shotsFired > 0) {
+                return fail("You fired a shot");
+            } else if (player.dead) {
+                return fail("Your robot was destroyed");
+            } else if (seconds >= condition.seconds) {
+                return succeed(`You survived for ${condition.seconds} seconds without shooting`);
+            }
+        } else if (simulation.finished) {
+            if (simulation.result.timedOut) {
+                return fail("Time's up");
+            }
+
+            const winner = simulation.result.winner;
+            if (winner !== this.playerIndex) {
+                return fail((winner === null) ? "Tie" : "You lose");
+            }
+
+            if (condition.type === "winWithHealth" && player.health <= condition.healthAbove * Ship.maxHealth) {
+                return fail(`You won, but with only ${Math.round(player.health)} health remaining`);
+            }
+
+            // The match ends a little after the last opponent is destroyed, so use the time of that opponent's destruction
+            const winTick = Math.max(...simulation.eliminationTicks.filter(tick => tick !== null));
+            const winSeconds = (winTick - Simulation.startTimerPeriod) / Simulation.ticksPerSecond;
+            if (condition.type === "winWithin" && winSeconds > condition.seconds) {
+                return fail(`You won, but it took ${winSeconds.toFixed(1)} seconds`);
+            }
+
+            return succeed("You win");
+        } else if (condition.type === "winWithin" && seconds > condition.seconds && simulation.bots.some((b, index) => index !== this.playerIndex && !b.dead)) {
+            return fail("Time's up");
+        }
+
+        return null;
+    }
+}
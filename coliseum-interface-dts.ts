@@ -1,5 +1,80 @@
 export const coliseumDTS =
-`/** (Read-only) Current state of an enemy */
+`/**
+ * Types of weapon (and of the projectiles they fire):
+ * - "shot": the standard projectile
+ * - "missile": slow, but steers toward the nearest enemy of the robot that fired it
+ * - "mine": stays where it was dropped (and doesn't harm the robot that dropped it)
+ * - "spread": three weaker shots fired in a fan
+ */
+ type WeaponType = "shot" | "missile" | "mine" | "spread";
+
+/** (Read-only) Properties of a weapon (and the projectiles it fires) */
+ interface WeaponInfo {
+    /** Number of ticks after firing this weapon before the robot can shoot again (with any weapon) */
+    cooldown: number;
+
+    /** Damage done by a projectile that hits a robot */
+    damage: number;
+
+    /** Distance the projectile travels each tick */
+    speed: number;
+
+    /** Radius of the projectile */
+    radius: number;
+
+    /** Number of ticks before the projectile disappears (zero if it lasts until it hits something) */
+    lifetime: number;
+
+    /** Energy used by firing this weapon (only when energy rules are in effect) */
+    energyCost: number;
+}
+
+/**
+ * Types of power-up:
+ * - "repair": gradually restores health
+ * - "rapidFire": halves weapon cooldowns
+ * - "shield": blocks all damage
+ * - "speed": increases movement speed by half
+ */
+ type PowerUpType = "repair" | "rapidFire" | "shield" | "speed";
+
+/** (Read-only) A power-up waiting on the battlefield (robots collect power-ups by touching them) */
+ interface PowerUpState {
+    type: PowerUpType;
+
+    /** Horizontal position of the power-up */
+    x: number;
+
+    /** Vertical position of the power-up */
+    y: number;
+
+    /** Radius of the power-up */
+    radius: number;
+
+    /** Number of ticks the power-up's effect lasts once collected */
+    duration: number;
+
+    /** Number of ticks before the power-up disappears (if not collected) */
+    remainingTicks: number;
+}
+
+/** (Read-only) A collected power-up that is currently in effect */
+ interface EffectState {
+    type: PowerUpType;
+
+    /** Number of ticks until the effect wears off */
+    remainingTicks: number;
+}
+
+/** (Read-only) Properties of each weapon */
+ interface Weapons {
+    shot: WeaponInfo;
+    missile: WeaponInfo;
+    mine: WeaponInfo;
+    spread: WeaponInfo;
+}
+
+/** (Read-only) Current state of an enemy */
  interface EnemyState {
     /** Horizontal position of the enemy */
     x: number;
@@ -15,6 +90,27 @@ export const coliseumDTS =
 
     /** Speed at which the enemy is moving (zero if not moving) */
     speed: number;
+
+    /** Remaining health of the enemy (the enemy is destroyed when this reaches zero) */
+    health: number;
+
+    /** Health of a fully repaired robot */
+    maxHealth: number;
+
+    /** Number of ticks until the enemy can shoot again (zero if it can shoot now) */
+    shootCooldown: number;
+
+    /** True if the enemy can shoot now */
+    canShoot: boolean;
+
+    /** Remaining energy of the enemy (always maxEnergy unless energy rules are in effect) */
+    energy: number;
+
+    /** Energy of a fully charged robot */
+    maxEnergy: number;
+
+    /** Power-ups currently in effect for the enemy */
+    effects: EffectState[];
 }
 
 /** (Read-only) Current state of an enemy projectile */
@@ -30,6 +126,57 @@ export const coliseumDTS =
 
     /** Speed at which the projectile is moving */
     speed: number;
+
+    /** Type of weapon that fired the projectile */
+    type: WeaponType;
+}
+
+/** (Read-only) A static obstacle that blocks robots and stops projectiles */
+ interface Obstacle {
+    /** Shape of the obstacle ("circle" or "rectangle") */
+    type: "circle" | "rectangle";
+
+    /** Horizontal position of the obstacle's center */
+    x: number;
+
+    /** Vertical position of the obstacle's center */
+    y: number;
+
+    /** Radius of the obstacle (circles only) */
+    radius?: number;
+
+    /** Width of the obstacle (rectangles only) */
+    width?: number;
+
+    /** Height of the obstacle (rectangles only) */
+    height?: number;
+}
+
+/**
+ * (Read-only) Energy rules: robots regain energy every tick, moving and shooting use energy, and robots without enough
+ * energy can't move or shoot
+ */
+ interface EnergyRules {
+    /** Energy regained each tick */
+    regeneration: number;
+
+    /** Energy used by each tick of moving */
+    moveCost: number;
+}
+
+/**
+ * (Read-only) Sensor rules: robots only detect enemies, projectiles, and power-ups within the radar radius, or within
+ * the scan cone (centered on the robot's scanDirection)
+ */
+ interface SensorRules {
+    /** Distance within which everything is detected (in all directions) */
+    radarRadius: number;
+
+    /** Distance covered by the scan cone */
+    scanRange: number;
+
+    /** Width of the scan cone (in radians) */
+    scanAngle: number;
 }
 
 /** Defines the limits of the battlefield */
@@ -61,6 +208,27 @@ export const coliseumDTS =
     /** (Read-only) Radius of robot's bounding circle*/
     radius: number;
 
+    /** (Read-only) Remaining health (the robot is destroyed when this reaches zero) */
+    health: number;
+
+    /** (Read-only) Health of a fully repaired robot */
+    maxHealth: number;
+
+    /** (Read-only) Number of ticks until the robot can shoot again (zero if it can shoot now) */
+    shootCooldown: number;
+
+    /** (Read-only) True if the robot can shoot now (i.e. setting shoot to true fires this tick) */
+    canShoot: boolean;
+
+    /** (Read-only) Remaining energy (always maxEnergy unless energy rules are in effect) */
+    energy: number;
+
+    /** (Read-only) Energy of a fully charged robot */
+    maxEnergy: number;
+
+    /** (Read-only) Power-ups currently in effect */
+    effects: EffectState[];
+
     /** Direction to move (in radians; zero means to the right) */
     moveDirection: number;
 
@@ -72,6 +240,12 @@ export const coliseumDTS =
 
     /** Set this to true if the robot should shoot (in the direction of shootDirection) */
     shoot: boolean;
+
+    /** Direction in which to point the scan cone (in radians; only used when sensor rules are in effect) */
+    scanDirection: number;
+
+    /** Weapon to fire when shooting (see WeaponType; "shot" by default) */
+    weapon: WeaponType;
 }
 
 /** (Read-only) Information about the robot's environment */
@@ -79,10 +253,58 @@ export const coliseumDTS =
     /** Limits of the battlefield */
     bounds: Bounds;
 
-    /** Current state of the enemy (or null if no enemy present) */
+    /** Distance projectiles travel each tick (for the standard "shot" weapon; see weapons for the others) */
+    projectileSpeed: number;
+
+    /** Damage done by a projectile that hits a robot (for the standard "shot" weapon; see weapons for the others) */
+    projectileDamage: number;
+
+    /** Properties of each weapon */
+    weapons: Weapons;
+
+    /** Energy rules (or null if energy rules are not in effect) */
+    energy: EnergyRules | null;
+
+    /**
+     * Sensor rules (or null if sensor rules are not in effect). Under sensor rules, enemies, enemyProjectiles, and
+     * powerUps only include what the robot's sensors detect.
+     */
+    sensors: SensorRules | null;
+
+    /** Current state of the nearest enemy (or null if no enemy present, or none is detected under sensor rules) */
     enemy: EnemyState | null;
 
+    /** Current state of all enemies (nearest first) */
+    enemies: EnemyState[];
+
     /** Current state of enemy projectiles */
     enemyProjectiles: ProjectileState[];
+
+    /** Obstacles on the battlefield (these never move) */
+    obstacles: Obstacle[];
+
+    /** Power-ups waiting to be collected (nearest first; only when power-up rules are in effect) */
+    powerUps: PowerUpState[];
 }
+
+/**
+ * Draws over the battlefield (using battlefield coordinates, in the robot's color) to help with debugging. Drawings
+ * are cleared each time "think" is called, and can be hidden using the "Show debug drawing" option.
+ */
+ interface DebugDraw {
+    /** Draws a line from (x1, y1) to (x2, y2) */
+    line(x1: number, y1: number, x2: number, y2: number): void;
+
+    /** Draws the outline of a circle centered at (x, y) */
+    circle(x: number, y: number, radius: number): void;
+
+    /** Draws a dot at (x, y) */
+    point(x: number, y: number): void;
+
+    /** Draws text starting at (x, y) */
+    text(text: string, x: number, y: number): void;
+}
+
+/** Debug drawing (e.g. "debug.line(self.x, self.y, environment.enemy.x, environment.enemy.y);") */
+declare const debug: DebugDraw;
 `;
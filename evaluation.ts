@@ -0,0 +1,113 @@
+import { ArenaMap } from "./arena-map";
+import { deriveSeed } from "./random";
+import { BotInitializer, Simulation, SimulationRules } from "./simulation";
+
+// Evaluation of a robot's win rate over many seeds (run headless, at full speed)
+
+export interface EvaluationOptions {
+    matchCount: number;
+
+    /** Seed from which each match's seed is derived */
+    seed: number;
+    map: ArenaMap;
+    rules: SimulationRules;
+}
+
+export interface EvaluationMatch {
+    seed: number;
+
+    /** Index of the winning robot (or null for a tie) */
+    winner: number | null;
+
+    /** Length of the match (from the end of the start timer until the result was decided, excluding the end timer) */
+    ticks: number;
+
+    /** Health the evaluated robot had left at the end of the match */
+    health: number;
+}
+
+export interface EvaluationResult {
+    matches: EvaluationMatch[];
+    wins: number;
+    losses: number;
+    ties: number;
+
+    /** 95% confidence interval for the win rate (as fractions) */
+    winRateInterval: [number, number];
+    averageTicks: number;
+    averageHealth: number;
+
+    /** Seeds of the matches the evaluated robot lost */
+    lossSeeds: number[];
+}
+
+/** Computes the Wilson score interval for a binomial proportion (95% confidence by default) */
+export function getConfidenceInterval(successes: number, trials: number, z: number = 1.96): [number, number] {
+    if (trials <= 0) {
+        return [0, 1];
+    }
+
+    const p = successes / trials;
+    const z2 = z * z;
+    const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+    const margin = (z / (1 + z2 / trials)) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+    return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+export class Evaluation {
+    private matches: EvaluationMatch[] = [];
+    private simulation: Simulation | null = null;
+
+    /** createBots creates fresh robots for each match (given the match's seed); botIndex is the index of the robot being evaluated */
+    constructor(private createBots: (seed: number) => BotInitializer[], private botIndex: number, private options: EvaluationOptions) {
+    }
+
+    public get completedMatchCount(): number {
+        return this.matches.length;
+    }
+
+    public get finished(): boolean {
+        return this.matches.length >= this.options.matchCount;
+    }
+
+    /** Runs up to the given number of ticks (across matches); returns false once the evaluation is finished */
+    public advance(ticks: number): boolean {
+        for (let i = 0; i < ticks && !this.finished; i++) {
+            if (!this.simulation) {
+                const seed = deriveSeed(this.options.seed, this.matches.length);
+                this.simulation = new Simulation(this.createBots(seed), seed, this.options.map, this.options.rules);
+            }
+
+            const simulation = this.simulation;
+            simulation.update();
+            if (simulation.finished) {
+                this.matches.push({
+                    seed: simulation.seed,
+                    winner: simulation.result.winner,
+                    ticks: Simulation.getMatchLength(simulation.result, simulation.rules),
+                    health: Math.max(0, simulation.bots[this.botIndex].health),
+                });
+                this.simulation = null;
+            }
+        }
+        return !this.finished;
+    }
+
+    public getResult(): EvaluationResult {
+        const matches = this.matches;
+        const count = Math.max(1, matches.length);
+        const wins = matches.filter(m => m.winner === this.botIndex).length;
+        const ties = matches.filter(m => m.winner === null).length;
+        const losses = matches.filter(m => m.winner !== null && m.winner !== this.botIndex);
+        return {
+            matches: matches.slice(),
+            wins,
+            losses: losses.length,
+            ties,
+            winRateInterval: getConfidenceInterval(wins, matches.length),
+            averageTicks: matches.reduce((sum, m) => sum + m.ticks, 0) / count,
+            averageHealth: matches.reduce((sum, m) => sum + m.health, 0) / count,
+            lossSeeds: losses.map(m => m.seed),
+        };
+    }
+}
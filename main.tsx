@@ -4,12 +4,20 @@ declare const React: typeof import("react");
 declare const ReactDOM: typeof import("react-dom");
 import * as acorn from "./js-interpreter/acorn.js";
 (window as any).acorn = acorn;
-import { Interpreter } from "./js-interpreter/interpreter.js";
 import { coliseumDTS } from "./coliseum-interface-dts";
-import { Bounds, EnemyState, Environment, ProjectileState, RobotState } from "./coliseum-interface"
-
-const createNewInterpreter = (code: string) => new Interpreter(code);
-type Interpreter = ReturnType<typeof createNewInterpreter>;
+import { Environment, Obstacle, RobotState } from "./coliseum-interface"
+import { builtInBehaviors } from "./behaviors";
+import { createSeed, maxSeed, parseSeed } from "./random";
+import { BudgetOverrunRule, createHeadlessScriptedBot, DebugShape, defaultStepBudget, LogLevel, LogMessage, StepBudget } from "./scripted-bot";
+import { WorkerBot, WorkerBotListener } from "./worker-bot";
+import { BotForfeitError, BotInitializer, defaultRules, sensorRules, Ship, Simulation, SimulationResult, SimulationRules } from "./simulation";
+import { BotFrame, interpolateFrames, parseReplay, PowerUpFrame, ProjectileFrame, Replay, ReplayFrame, ReplayRecorder, serializeReplay } from "./replay";
+import { Tournament, TournamentEntrant, TournamentResult } from "./tournament";
+import { Evaluation, EvaluationResult } from "./evaluation";
+import { createShareLink, decodeSharedBot, getSharedBotData, SharedBot } from "./share";
+import { ArenaMap, builtInMaps, emptyMap, parseMap } from "./arena-map";
+import { BotCompileError, BotLanguage, botLanguageNames, CompiledBot, defaultBotLanguage } from "./bot-compiler";
+import { ChallengeDefinition, ChallengeJudge, ChallengeOutcome, describeChallenge, getChallenge, getChallengeMap, getChallengeOpponent, getChallengeRules } from "./challenges";
 
 // Monaco Editor shim
 const monacoShim = {
@@ -32,420 +40,541 @@ const monacoShim = {
 (window as any).monacoShim = monacoShim;
 
 namespace Battle {
-    // TODO: Update scaling, transformation on window "resize" event
-
-    // Logic
-    // TODO: Could be inferred from "collided" handler
-    enum CollisionClass {
-        solid,      // Collides with solids (moving them apart), and also with massless
-        massless,   // Collides with solids, but doesn't move anything
-    }
-
-    interface Position {
-        x: number;
-        y: number;
+    // Bots
+    function isBotInitializer(a: BotInitializer | BotSlot): a is BotInitializer {
+        return typeof(a) === "function";
     }
 
-    interface Circle extends Position {
-        radius: number;
+    enum TextAlignment {
+        left,
+        center,
+        right,
     }
 
-    interface Collidable extends Circle {
-        collisionClass: CollisionClass;
-
-        /** Called on collisionClass.solid when colliding with collisionClass.massless */
-        collided(other: Collidable): void;
+    enum Scenario {
+        youVersusEnemy,
+        leftVersusRight,
     }
 
-    interface Entity extends Collidable {
-        dead: boolean;
-
-        update(): void;
-        draw(context: CanvasRenderingContext2D): void;
-    }
+    /** Draws recorded frames onto a canvas (used for both live simulations and replays) */
+    class ArenaRenderer {
+        private static readonly maxDistance = Simulation.maxDistance;
 
-    function isEntity(a: object): a is Entity {
-        return "dead" in a;
-    }
+        /** Fill color for each type of projectile */
+        private static readonly projectileColors = { shot: "red", missile: "orange", mine: "yellow", spread: "red" };
 
-    interface Scriptable extends Entity {
-        updateWithEnvironment(getEnvironment: () => Environment): Entity[] | null;
-    }
+        /** Label for each type of power-up */
+        private static readonly powerUpLabels = { repair: "+", rapidFire: "F", shield: "S", speed: "»" };
 
-    function isScriptable(a: object): a is Scriptable {
-        return "updateWithEnvironment" in a;
-    }
+        /** Outline color for each robot (by index) */
+        public static readonly botColors = ["deepskyblue", "orange", "limegreen", "violet", "gold", "tomato", "turquoise", "hotpink"];
 
-    class MovingEntity implements Entity, Scriptable {
-        public dead = false;
+        private context: CanvasRenderingContext2D;
+        private width: number;
+        private height: number;
 
-        constructor(
-            public collisionClass: CollisionClass,
-            public x: number,
-            public y: number,
-            public radius: number,
-            protected strokeColor: string | null,
-            protected fillColor: string,
-            public speed: number,
-            public moveDirection: number,
-            protected shootDirection: number,
-            public move: boolean) {
+        constructor(private canvas: HTMLCanvasElement) {
+            this.context = canvas.getContext("2d");
         }
 
-        protected collidedInternal(other: Collidable) {}
-        protected drawInternal(context: CanvasRenderingContext2D) { }
-
-        public collided(other: Collidable) {
-            if (isEntity(other)) {
-                other.dead = true;
-                this.collidedInternal(other);
+        /** Lays out the canvas at the given size (in CSS pixels), with one canvas pixel per device pixel (for sharp drawing) */
+        public resize(width: number, height: number) {
+            const canvas = this.canvas;
+            const pixelRatio = window.devicePixelRatio || 1;
+            canvas.style.width = `${width}px`;
+            canvas.style.height = `${height}px`;
+
+            // Note: setting the canvas size also resets its transformation
+            canvas.width = Math.round(width * pixelRatio);
+            canvas.height = Math.round(height * pixelRatio);
+
+            let scale: number;
+            if (canvas.width < canvas.height) {
+                scale = canvas.width / (2 * ArenaRenderer.maxDistance);
+                this.width = (2 * ArenaRenderer.maxDistance);
+                this.height = canvas.height / scale;
+            } else {
+                scale = canvas.height / (2 * ArenaRenderer.maxDistance);
+                this.height = (2 * ArenaRenderer.maxDistance);
+                this.width = canvas.width / scale;
             }
+
+            this.context.scale(scale, -scale);
+            this.context.translate(this.width / 2, -this.height / 2);
         }
 
-        public update() {
-            if (this.move) {
-                this.x += this.speed * Math.cos(this.moveDirection);
-                this.y += this.speed * Math.sin(this.moveDirection);
+        public drawText(text: string, x: number, y: number, alignment: TextAlignment, size: number = 2, color: string = "white") {
+            this.context.font = `${size}px sans-serif`;
+            this.context.fillStyle = color;
+
+            const width = this.context.measureText(text).width;
+            let offset: number;
+            switch (alignment) {
+                case TextAlignment.left: offset = 0; break;
+                case TextAlignment.center: offset = -width / 2; break;
+                case TextAlignment.right: offset = -width; break;
             }
-        }
 
-        public updateWithEnvironment(getEnvironment: () => Environment) {
-            return null;
+            // Flip vertically (so that the text isn't upside down)
+            this.context.scale(1, -1);
+            this.context.fillText(text, x + offset, -y);
+            this.context.scale(1, -1);
         }
 
-        public draw(context: CanvasRenderingContext2D) {
-            context.save();
-            context.translate(this.x, this.y);
-            context.rotate(this.shootDirection);
+        private drawCircle(x: number, y: number, radius: number, direction: number, fillColor: string, strokeColor: string | null) {
+            const context = this.context;
+            context.translate(x, y);
+            context.rotate(direction);
 
             context.beginPath();
-            context.arc(0, 0, this.radius, 0, Math.PI * 2, true);
+            context.arc(0, 0, radius, 0, Math.PI * 2, true);
             context.closePath();
 
-            context.fillStyle = this.fillColor;
+            context.fillStyle = fillColor;
             context.fill();
 
-            if (this.strokeColor !== null) {
-                context.strokeStyle = this.strokeColor;
+            if (strokeColor !== null) {
+                context.strokeStyle = strokeColor;
                 context.stroke();
             }
+        }
+
+        private drawBot(bot: BotFrame, index: number) {
+            const context = this.context;
+            const value = 128 * (bot.health / Ship.maxHealth);
 
-            this.drawInternal(context);
+            context.save();
+            this.drawCircle(bot.x, bot.y, bot.radius, bot.shootDirection, `rgb(${value}, ${value}, ${value})`, ArenaRenderer.botColors[index]);
 
+            context.strokeStyle = "white";
+            context.beginPath();
+            context.moveTo(0, 0);
+            context.lineTo(1, 0);
+            context.stroke();
             context.restore();
+
+            if (bot.effects.indexOf("shield") >= 0) {
+                context.strokeStyle = "white";
+                context.beginPath();
+                context.arc(bot.x, bot.y, bot.radius + 0.2, 0, Math.PI * 2, true);
+                context.stroke();
+            }
+
+            // Energy bar (only shown once energy has been used)
+            if (bot.energy < Ship.maxEnergy) {
+                context.fillStyle = "cyan";
+                context.fillRect(bot.x - bot.radius, bot.y - bot.radius - 0.4, 2 * bot.radius * Math.max(0, bot.energy) / Ship.maxEnergy, 0.15);
+            }
         }
-    }
 
-    function isMovingEntity(a: object): a is MovingEntity {
-        return "moveDirection" in a;
-    }
+        private drawProjectile(projectile: ProjectileFrame) {
+            this.context.save();
+            this.drawCircle(projectile.x, projectile.y, projectile.radius, projectile.direction, ArenaRenderer.projectileColors[projectile.type], null);
+            this.context.restore();
+        }
 
-    class Projectile extends MovingEntity {
-        constructor(
-            public source: Entity,
-            x: number,
-            y: number,
-            radius: number,
-            color: string,
-            moveDirection: number,
-            speed: number,
-            public damage: number
-        ) {
-            super(CollisionClass.massless, x, y, radius, null, color, speed, moveDirection, moveDirection, true);
+        private drawObstacle(obstacle: Obstacle) {
+            const context = this.context;
+            context.fillStyle = "dimgray";
+            if (obstacle.type === "circle") {
+                context.beginPath();
+                context.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2, true);
+                context.fill();
+            } else {
+                context.fillRect(obstacle.x - obstacle.width / 2, obstacle.y - obstacle.height / 2, obstacle.width, obstacle.height);
+            }
         }
-    }
 
-    function isProjectile(a: object): a is Projectile {
-        return "damage" in a;
-    }
+        private drawPowerUp(powerUp: PowerUpFrame) {
+            this.context.save();
+            this.drawCircle(powerUp.x, powerUp.y, powerUp.radius, 0, "darkslateblue", "white");
+            this.context.restore();
+            this.drawText(ArenaRenderer.powerUpLabels[powerUp.type], powerUp.x, powerUp.y - powerUp.radius / 2, TextAlignment.center, powerUp.radius * 1.5);
+        }
 
-    class Shot extends Projectile {
-        public static readonly shotRadius = 0.15;
+        public drawFrame(frame: ReplayFrame, obstacles: Obstacle[]) {
+            this.context.fillStyle = "gray";
+            this.context.fillRect(-this.width / 2, -this.height / 2, this.width, this.height);
+            this.context.fillStyle = "black";
+            this.context.fillRect(-ArenaRenderer.maxDistance, -ArenaRenderer.maxDistance, ArenaRenderer.maxDistance * 2, ArenaRenderer.maxDistance * 2);
+            obstacles.forEach(o => this.drawObstacle(o));
+
+            this.context.lineWidth = 0.1;
+            frame.powerUps.forEach(p => this.drawPowerUp(p));
+            frame.bots.forEach((b, index) => {
+                if (!b.dead) {
+                    this.drawBot(b, index);
+                }
+            });
+            frame.projectiles.forEach(p => this.drawProjectile(p));
+        }
 
-        constructor(source: Entity, x: number, y: number, moveDirection: number) {
-            super(source, x, y, Shot.shotRadius, "red", moveDirection, 0.5, 10);
+        /** Shades the areas covered by each robot's radar and scan cone (see sensorRules) */
+        public drawSensorCoverage(frame: ReplayFrame) {
+            const context = this.context;
+            context.save();
+            context.globalAlpha = 0.15;
+            frame.bots.forEach((b, index) => {
+                if (!b.dead) {
+                    context.fillStyle = ArenaRenderer.botColors[index];
+                    context.beginPath();
+                    context.arc(b.x, b.y, sensorRules.radarRadius, 0, Math.PI * 2, true);
+                    context.fill();
+
+                    const scanDirection = b.scanDirection || 0;
+                    context.beginPath();
+                    context.moveTo(b.x, b.y);
+                    context.arc(b.x, b.y, sensorRules.scanRange, scanDirection - sensorRules.scanAngle / 2, scanDirection + sensorRules.scanAngle / 2, false);
+                    context.closePath();
+                    context.fill();
+                }
+            });
+            context.restore();
         }
-    }
 
-    class Ship extends MovingEntity {
-        private shootTimer = 0;
-        private health = 100;
+        /** Draws a robot's debug drawing in the given color */
+        public drawDebugShapes(shapes: DebugShape[], color: string) {
+            const context = this.context;
+            context.save();
+            context.strokeStyle = color;
+            context.fillStyle = color;
+            context.lineWidth = 0.05;
+            for (const shape of shapes) {
+                switch (shape.type) {
+                    case "line":
+                        context.beginPath();
+                        context.moveTo(shape.x1, shape.y1);
+                        context.lineTo(shape.x2, shape.y2);
+                        context.stroke();
+                        break;
+
+                    case "circle":
+                        context.beginPath();
+                        context.arc(shape.x, shape.y, Math.abs(shape.radius), 0, Math.PI * 2, true);
+                        context.stroke();
+                        break;
+
+                    case "point":
+                        context.beginPath();
+                        context.arc(shape.x, shape.y, 0.1, 0, Math.PI * 2, true);
+                        context.fill();
+                        break;
+
+                    case "text":
+                        this.drawText(shape.text, shape.x, shape.y, TextAlignment.left, 0.8, color);
+                        break;
+                }
+            }
+            context.restore();
+        }
 
-        protected shoot = false;
-        protected shootPeriod = 10;
+        /** Draws status text in the top left corner */
+        public drawStatus(text: string) {
+            this.drawText(text, -this.width / 2 + 0.2, this.height / 2 - 0.8, TextAlignment.left, 0.6);
+        }
 
-        constructor(x: number, y: number, moveDirection: number) {
-            super(CollisionClass.solid, x, y, 1, "lightgray", "rgb(128, 128, 128)", 0.2, moveDirection, moveDirection, false);
+        /** Labels each robot (just above the robot) */
+        public drawLabels(frame: ReplayFrame, labels: string[]) {
+            frame.bots.forEach((b, index) => this.drawText(labels[index], b.x, b.y + b.radius + 0.5, TextAlignment.center, 1.5));
         }
+    }
 
-        protected think(environment: Environment): void {}
+    /** Size (in CSS pixels) of the arena canvas, which is shown in a message box that fills most of the window */
+    function getArenaSize(): number {
+        return Math.min(window.innerWidth, window.innerHeight) * 0.8;
+    }
+
+    function downloadText(fileName: string, text: string) {
+        const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
 
-        public updateWithEnvironment(getEnvironment: () => Environment): Entity[] | null {
-            const value = 128 * (this.health / 100);
-            this.fillColor = `rgb(${value}, ${value}, ${value})`;
+    function downloadReplay(replay: Replay) {
+        downloadText(`coliseum-replay-${replay.seed}.json`, serializeReplay(replay));
+    }
 
-            this.think(getEnvironment());
+    class ResultTable extends React.Component<{ result: SimulationResult, labels: string[], ticksPerSecond: number }> {
+        public render() {
+            const { result, labels, ticksPerSecond } = this.props;
+            const order = labels.map((label, index) => index).sort((a, b) => result.ranks[a] - result.ranks[b]);
+            return <table className="resultTable">
+                <thead>
+                    <tr><th>Place</th><th>Robot</th><th>Eliminated</th></tr>
+                </thead>
+                <tbody>
+                    {order.map(index => {
+                        const tick = result.eliminationTicks[index];
+                        return <tr key={index}>
+                            <td>{result.ranks[index]}</td>
+                            <td style={{ color: ArenaRenderer.botColors[index] }}>{labels[index]}</td>
+                            <td>{(tick === null) ? "Survived" : `${(tick / ticksPerSecond).toFixed(1)} s (tick ${tick})`}</td>
+                        </tr>;
+                    })}
+                </tbody>
+            </table>;
+        }
+    }
 
-            let result = null;
-            if (this.shoot && this.shootTimer <= 0) {
-                this.shootTimer = this.shootPeriod;
+    /** Chart of each robot's health over the course of a match (after the start timer) */
+    class HealthChart extends React.Component<{ replay: Replay }> {
+        private static readonly width = 400;
+        private static readonly height = 150;
 
-                let x = this.x + (this.radius + Shot.shotRadius) * 1.001 * Math.cos(this.shootDirection);
-                let y = this.y + (this.radius + Shot.shotRadius) * 1.001 * Math.sin(this.shootDirection);
+        private canvas = React.createRef<HTMLCanvasElement>();
 
-                result = [new Shot(this, x, y, this.shootDirection)];
-            } else if (this.shootTimer > 0) {
-                this.shootTimer--;
+        private draw() {
+            const { width, height } = HealthChart;
+            const replay = this.props.replay;
+            const frames = replay.frames.filter(f => f.tick >= replay.startTicks);
+            const context = this.canvas.current.getContext("2d");
+            context.clearRect(0, 0, width, height);
+            if (frames.length <= 0) {
+                return;
             }
-            return result;
+
+            const firstTick = frames[0].tick;
+            const tickCount = Math.max(1, frames[frames.length - 1].tick - firstTick);
+            const getX = (tick: number) => width * (tick - firstTick) / tickCount;
+            const getY = (health: number) => height * (1 - Math.max(0, health) / Ship.maxHealth);
+
+            context.lineWidth = 2;
+            frames[0].bots.forEach((b, index) => {
+                context.strokeStyle = ArenaRenderer.botColors[index];
+                context.beginPath();
+                frames.forEach((f, i) => {
+                    const x = getX(f.tick);
+                    const y = getY(f.bots[index].health);
+                    if (i === 0) {
+                        context.moveTo(x, y);
+                    } else {
+                        context.lineTo(x, y);
+                    }
+                });
+                context.stroke();
+            });
         }
 
-        protected collidedInternal(other: Collidable) {
-            if (isProjectile(other)) {
-                this.health -= other.damage;
-                this.dead = (this.health <= 0);
-                // TODO: Explosion?
-            }
+        public componentDidMount() {
+            this.draw();
         }
 
-        protected drawInternal(context: CanvasRenderingContext2D) {
-            context.strokeStyle = "white";
-            context.beginPath();
-            context.moveTo(0, 0);
-            context.lineTo(1, 0);
-            context.stroke();
+        public componentDidUpdate() {
+            this.draw();
         }
-    }
 
-    // Bots
-    type BotThinkHandler = (self: RobotState, environment: Environment) => void;
-    type BotInitializer = () => BotThinkHandler;
+        public render() {
+            return <canvas className="bordered" ref={this.canvas} width={HealthChart.width} height={HealthChart.height}></canvas>;
+        }
+    }
 
-    function isBotInitializer(a: BotInitializer | CodeFile): a is BotInitializer {
-        return typeof(a) === "function";
+    /** Statistics for each robot in a finished match (shots, accuracy, damage, etc.), along with a chart of health over time */
+    class StatisticsPanel extends React.Component<{ replay: Replay }> {
+        public render() {
+            const { result, labels, ticksPerSecond } = this.props.replay;
+            return <div className="statisticsPanel">
+                <table className="resultTable">
+                    <thead>
+                        <tr><th>Robot</th><th>Shots</th><th>Hits</th><th>Accuracy</th><th>Damage dealt</th><th>Damage taken</th><th>Distance</th><th>Survived</th></tr>
+                    </thead>
+                    <tbody>
+                        {result.statistics.map((s, index) => <tr key={index}>
+                            <td style={{ color: ArenaRenderer.botColors[index] }}>{labels[index]}</td>
+                            <td>{s.shotsFired}</td>
+                            <td>{s.hits}</td>
+                            <td>{(s.shotsFired > 0) ? `${Math.round(100 * s.hits / s.shotsFired)}%` : "-"}</td>
+                            <td>{Math.round(s.damageDealt)}</td>
+                            <td>{Math.round(s.damageTaken)}</td>
+                            <td>{s.distanceTravelled.toFixed(1)}</td>
+                            <td>{(s.survivalTicks / ticksPerSecond).toFixed(1)} s</td>
+                        </tr>)}
+                    </tbody>
+                </table>
+                <p>Health over time:</p>
+                <HealthChart replay={this.props.replay} />
+            </div>;
+        }
     }
 
-    class Bot extends Ship {
-        private thinkHandler: BotThinkHandler;
+    interface LogEntry extends LogMessage {
+        tick: number;
+
+        /** Index of the robot that wrote the message */
+        bot: number;
+    }
 
-        constructor (x: number, y: number, public initialize: BotInitializer) {
-            super(x, y, 0);
+    /** Console output from the robots in a match */
+    class BotLog {
+        /** Maximum number of entries kept (older entries are discarded) */
+        private static readonly maxEntries = 1000;
 
-            this.thinkHandler = initialize();
-        }
+        public entries: LogEntry[] = [];
 
-        protected think(environment: Environment) {
-            const state: RobotState = {
-                x: this.x,
-                y: this.y,
-                radius: this.radius,
-                shootDirection: this.shootDirection,
-                moveDirection: this.moveDirection,
-                move: this.move,
-                shoot: this.shoot,
-            };
+        /** Incremented whenever entries are added */
+        public version = 0;
 
-            this.thinkHandler(state, environment);
+        /** Supplies the current tick (replaced once the match starts) */
+        public getTick: () => number = () => 0;
 
-            this.move = state.move;
-            this.shoot = state.shoot;
-            this.shootDirection = state.shootDirection;
-            this.moveDirection = state.moveDirection;
+        public add(bot: number, messages: LogMessage[]) {
+            const tick = this.getTick();
+            this.entries = this.entries
+                .concat(messages.map<LogEntry>(m => ({ ...m, tick, bot })))
+                .slice(-BotLog.maxEntries);
+            this.version++;
         }
     }
 
-    function isBot(a: MovingEntity): a is Bot {
-        return "initialize" in a;
+    interface LogPanelState {
+        version: number;
+        filter: string;
+
+        /** Index of the robot to show messages from (or -1 for all robots) */
+        bot: number;
+        warningsOnly: boolean;
     }
 
-    const BehaviorSittingDuck: BotInitializer = () => (() => {});
-    const BehaviorMovingDuck: BotInitializer = () => {
-        let moveDirectionDelta = Math.PI / 100;
-        return function (self: RobotState, environment: Environment) {
-            self.moveDirection += moveDirectionDelta;
-            self.move = true;
-        };
-    };
+    class LogPanel extends React.Component<{ log: BotLog, labels: string[] }, LogPanelState> {
+        /** Time (in milliseconds) between checks for new messages (so that busy robots don't re-render the page every tick) */
+        private static readonly refreshPeriod = 200;
 
-    const BehaviorTurret: BotInitializer = () => {
-        return function (self:RobotState, environment: Environment) {
-            if (environment.enemy) {
-                const enemy = environment.enemy;
-                self.shootDirection = Math.atan2(enemy.y - self.y, enemy.x - self.x);
-                self.shoot = true;
-            } else {
-                self.shoot = false;
-            }
-        };
-    };
+        /** Maximum number of (matching) entries shown */
+        private static readonly maxDisplayed = 200;
 
-    const BehaviorMovingTurret: BotInitializer = () => {
-        const period = 60;
-        let timer = period;
-        let direction = Math.PI / 2;
-        return function (self:RobotState, environment: Environment) {
-            if (timer-- <= 0) {
-                timer = period;
-                direction = -direction;
-            }
-            self.moveDirection = direction;
-            self.move = true;
-
-            if (environment.enemy) {
-                const enemy = environment.enemy;
-                self.shootDirection = Math.atan2(enemy.y - self.y, enemy.x - self.x);
-                self.shoot = true;
-            } else {
-                self.shoot = false;
+        private container = React.createRef<HTMLDivElement>();
+        private refreshToken: number = null;
+
+        constructor(props) {
+            super(props);
+            this.state = { version: props.log.version, filter: "", bot: -1, warningsOnly: false };
+        }
+
+        private refresh = () => {
+            if (this.props.log.version !== this.state.version) {
+                this.setState({ version: this.props.log.version });
             }
         };
-    };
 
-    interface Line {
-        x: number;
-        y: number;
-        direction: number;
-    }
+        public componentDidMount() {
+            this.refreshToken = window.setInterval(this.refresh, LogPanel.refreshPeriod);
+        }
 
-    function square(x: number) {
-        return x * x;
-    }
+        public componentDidUpdate() {
+            // Keep the latest messages in view
+            const container = this.container.current;
+            container.scrollTop = container.scrollHeight;
+        }
 
-    function getDistance(a: Position, b: Position) {
-        return Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
-    }
+        public componentWillUnmount() {
+            window.clearInterval(this.refreshToken);
+        }
 
-    function circleIntersectsLine(circle: Circle, line: Line): boolean {
-        const cosine = Math.cos(line.direction);
-        const sine = Math.sin(line.direction)
-        const x1 = line.x - circle.x;
-        const y1 = line.y - circle.y;
-        const x2 = x1 + cosine;
-        const y2 = y1 + sine;
-        const discriminant = square(circle.radius) * (square(cosine) + square(sine)) - square(x1 * y2 - x2 * y1);
-        return discriminant >= 0;
+        public render() {
+            const { filter, bot, warningsOnly } = this.state;
+            const lowerCaseFilter = filter.toLowerCase();
+            const entries = this.props.log.entries
+                .filter(e => (bot < 0 || e.bot === bot)
+                    && (!warningsOnly || e.level === LogLevel.warn)
+                    && e.text.toLowerCase().indexOf(lowerCaseFilter) >= 0)
+                .slice(-LogPanel.maxDisplayed);
+
+            return <div>
+                <div>
+                    <label>Filter: <input value={filter} onChange={(event) => this.setState({ filter: event.target.value })} /></label>
+                    <select value={bot} onChange={(event) => this.setState({ bot: parseInt(event.target.value, 10) })}>
+                        <option value={-1}>All robots</option>
+                        {this.props.labels.map((label, index) => <option key={index} value={index}>{label}</option>)}
+                    </select>
+                    <label><input type="checkbox" checked={warningsOnly} onChange={(event) => this.setState({ warningsOnly: event.target.checked })} /> Warnings only</label>
+                </div>
+                <div className="logPanel" ref={this.container}>
+                    {entries.map((e, index) => <div key={index} className={(e.level === LogLevel.warn) ? "logWarning" : null}>
+                        <span className="logTick">{e.tick}</span> <span style={{ color: ArenaRenderer.botColors[e.bot] }}>{this.props.labels[e.bot]}</span>: {e.text}
+                    </div>)}
+                </div>
+            </div>;
+        }
     }
 
-    const BehaviorBoss: BotInitializer = () => {
-        let directionOffset = Math.PI / 2;
-
-        return function (self: RobotState, environment: Environment) {
-            // Leading shots
-            const enemy = environment.enemy;
-            var d = getDistance(enemy, self);
-            var x = enemy.x + d / 0.5 * enemy.speed * Math.cos(enemy.direction);
-            var y = enemy.y + d / 0.5 * enemy.speed * Math.sin(enemy.direction);
-            self.shootDirection = Math.atan2(y - self.y, x - self.x);
-            self.shoot = true;
-
-            // Dodging
-            let closestProjectile: ProjectileState;
-            let minimumDistance = 1000;
+    interface ColiseumProperties {
+        /** Robots in the match (for two robots, the first is on the left and the second is on the right) */
+        bots: BotInitializer[];
+        labels: string[];
+        scenario: Scenario;
+        seed: number;
+        map: ArenaMap;
+        rules: SimulationRules;
 
-            const projectiles = environment.enemyProjectiles.filter((e) => circleIntersectsLine(self, e));
+        /** Console output from the robots (if any robots are scripted) */
+        log?: BotLog;
 
-            for (const p of projectiles) {
-                const distance = getDistance(self, p);
-                if (distance < minimumDistance) {
-                    minimumDistance = distance;
-                    closestProjectile = p;
-                }
-            }
+        /** Latest debug drawing from each robot (if any robots are scripted) */
+        drawings?: DebugShape[][];
 
-            if (closestProjectile) {
-                const directionToProjectile = Math.atan2(closestProjectile.y - self.y, closestProjectile.x - self.x);
-                self.moveDirection = directionToProjectile + directionOffset;
-                const nextX = self.x + Math.cos(self.moveDirection);
-                const nextY = self.y + Math.sin(self.moveDirection);
-                if (nextX < environment.bounds.xMin || nextX > environment.bounds.xMax || nextY < environment.bounds.yMin || nextY > environment.bounds.yMax) {
-                    directionOffset = -directionOffset;
-                    self.moveDirection = directionToProjectile + directionOffset;
-                }
+        /** Challenge being attempted (in Scenario.youVersusEnemy), if any */
+        challenge?: ChallengeDefinition;
+    }
 
-                self.move = true;
-            } else {
-                self.move = false;
-            }
-        };
-    };
+    interface ColiseumState {
+        replay?: Replay;
+        showDebug: boolean;
+        showSensors: boolean;
+        paused: boolean;
 
-    enum SimulationResult {
-        tie,
-        leftWins,
-        rightWins,
-    }
+        /** Simulation speed (as a multiple of real time) */
+        speed: number;
 
-    enum TextAlignment {
-        left,
-        center,
-        right,
+        /** True while computing the rest of the match (without rendering) */
+        skipping: boolean;
     }
 
-    enum Scenario {
-        youVersusEnemy,
-        leftVersusRight,
+    /** Formats a number of ticks as match time (e.g. "1:05.3") */
+    function formatMatchTime(ticks: number): string {
+        // Round to tenths of a second first, so that e.g. 59.97 seconds shows as "1:00.0" rather than "0:60.0"
+        const tenths = Math.round(Math.max(0, ticks) * 10 / Simulation.ticksPerSecond);
+        const minutes = Math.floor(tenths / 600);
+        const remainder = ((tenths % 600) / 10).toFixed(1);
+        return `${minutes}:${(remainder.length < 4) ? "0" : ""}${remainder}`;
     }
 
-    interface ColiseumProperties {
-        width: number;
-        height: number;
-        left: BotInitializer;
-        right: BotInitializer;
-        scenario: Scenario;
-    }
+    class Coliseum extends React.Component<ColiseumProperties, ColiseumState> {
+        private static readonly fps = Simulation.ticksPerSecond;
+        private static readonly speeds = [0.25, 0.5, 1, 2, 4, 8];
 
-    class Coliseum extends React.Component<ColiseumProperties> {
-        private static readonly fps = 30;
-        private static readonly maxDistance = 10;
-        private static readonly startTimerPeriod = Coliseum.fps;
-        private static readonly endTimerPeriod = 2 * Coliseum.fps;
-        private static readonly environmentBounds: Bounds = {
-            xMin: -Coliseum.maxDistance,
-            xMax: Coliseum.maxDistance,
-            yMin: -Coliseum.maxDistance,
-            yMax: Coliseum.maxDistance,
-        };
+        /** Number of ticks computed between checks for user input (when skipping to the end) */
+        private static readonly skipChunkTicks = 100;
 
-        private static readonly resultString = {
-            [Scenario.youVersusEnemy]: {
-                [SimulationResult.tie]: "Tie",
-                [SimulationResult.leftWins]: "You lose",
-                [SimulationResult.rightWins]: "You win",
-            },
-            [Scenario.leftVersusRight]: {
-                [SimulationResult.tie]: "Tie",
-                [SimulationResult.leftWins]: "Left wins",
-                [SimulationResult.rightWins]: "Right wins",
-            },
-        };
+        /** Most time (in seconds) simulated for one animation frame (so a backlog doesn't build up, e.g. in a background tab) */
+        private static readonly maxFrameSeconds = 0.25;
 
-        private static readonly robotLabels = {
-            [Scenario.youVersusEnemy]: ["Enemy", "You"],
-            [Scenario.leftVersusRight]: ["Left", "Right"],
-        };
+        /** Index of the player's robot (in Scenario.youVersusEnemy) */
+        public static readonly playerIndex = 1;
 
-        private entities: MovingEntity[];
-        private startTimer: number;
-        private endTimer: number;
-        private result?: SimulationResult;
+        private simulation: Simulation;
+        private recorder: ReplayRecorder;
+        private judge: ChallengeJudge | null = null;
+        private outcome: ChallengeOutcome | null = null;
 
-        private width: number;
-        private height: number;
         private canvas: React.RefObject<HTMLCanvasElement> = React.createRef<HTMLCanvasElement>();
-        private renderingContext?: CanvasRenderingContext2D = null;
-        private updateToken?: number = null;
+        private renderer?: ArenaRenderer = null;
+        private animationToken?: number = null;
+        private updating = false;
+
+        /** Time of the previous animation frame (from requestAnimationFrame; null before the first frame) */
+        private lastFrameTime: number | null = null;
+
+        /**
+         * Ticks' worth of time that has passed since the latest tick (the simulation runs at a fixed rate, so ticks are
+         * only run once a whole tick is due, and the remaining fraction is used to draw between the last two ticks)
+         */
+        private pendingTicks = 0;
 
         constructor(props) {
             super(props);
-        }
-
-        private static getCollisionOverlap(a: Collidable, b: Collidable): number {
-            const centerDistance = getDistance(a, b);
-            const overlapDistance = a.radius + b.radius - centerDistance;
-            if (overlapDistance > 0) {
-                return overlapDistance;
-            }
-            return 0;
+            this.state = { showDebug: true, showSensors: true, paused: false, speed: 1, skipping: false };
         }
 
         private visible(): boolean {
@@ -453,256 +582,478 @@ namespace Battle {
         }
 
         private hookUpdate() {
-            this.updateToken = window.setInterval(this.update, 1000 / Coliseum.fps);
+            // Start by showing the latest tick (rather than going back to the one before)
+            this.pendingTicks = 1;
+            this.lastFrameTime = null;
+            this.animationToken = requestAnimationFrame(this.update);
         }
 
         private unhookUpdate() {
-            if (this.updateToken !== null) {
-                window.clearInterval(this.updateToken);
-                this.updateToken = null;
+            if (this.animationToken !== null) {
+                cancelAnimationFrame(this.animationToken);
+                this.animationToken = null;
             }
         }
 
-        private enforceBoundsOnCoordinate(x: number): number {
-            return Math.max(-Coliseum.maxDistance, Math.min(Coliseum.maxDistance, x));
-        }
+        private start() {
+            const simulation = new Simulation(this.props.bots, this.props.seed, this.props.map, this.props.rules);
+            this.simulation = simulation;
+            this.recorder = new ReplayRecorder(simulation, this.props.labels);
+            this.judge = this.props.challenge ? new ChallengeJudge(this.props.challenge, Coliseum.playerIndex) : null;
+            this.outcome = null;
+            if (this.props.log) {
+                this.props.log.getTick = () => simulation.tick;
+            }
+            this.setState({ replay: null, paused: false, skipping: false });
 
-        private getEnvironment(self: Entity): Environment {
-            return {
-                bounds: Coliseum.environmentBounds,
-                enemy: this.entities
-                    .filter(e => e !== self && e.collisionClass === CollisionClass.solid)
-                    .map<EnemyState>(e => {
-                        let direction: number = null;
-                        let speed = 0;
-
-                        if (e.move) {
-                            let nextX = this.enforceBoundsOnCoordinate(e.x + e.speed * Math.cos(e.moveDirection));
-                            let nextY = this.enforceBoundsOnCoordinate(e.y + e.speed * Math.sin(e.moveDirection));
-                            direction = Math.atan2(nextY - e.y, nextX - e.x);
-                            speed = getDistance({ x: nextX, y: nextY }, e);
-                        }
+            this.unhookUpdate();
+            this.hookUpdate();
+        }
 
-                        return {
-                            x: e.x,
-                            y: e.y,
-                            radius: e.radius,
-                            direction,
-                            speed,
-                        };
-                    })
-                    [0] || null,
-
-                enemyProjectiles: this.entities
-                    .filter(e => isProjectile(e) && isMovingEntity(e) && e.source !== self)
-                    .map<ProjectileState>(e => ({
-                        x: e.x,
-                        y: e.y,
-                        direction: e.moveDirection,
-                        speed: e.speed,
-                    })),
-            };
+        /** True once the match is decided (or the challenge being attempted is decided) */
+        private get matchOver(): boolean {
+            return this.simulation.finished || this.outcome !== null;
         }
 
-        private enforceBounds() {
-            for (const e of this.entities) {
-                if (isProjectile(e)) {
-                    if (e.x < -Coliseum.maxDistance || e.x > Coliseum.maxDistance || e.y < -Coliseum.maxDistance || e.y > Coliseum.maxDistance) {
-                        e.dead = true;
-                    }
-                } else {
-                    e.x = this.enforceBoundsOnCoordinate(e.x);
-                    e.y = this.enforceBoundsOnCoordinate(e.y);
+        private updateOutcome() {
+            if (this.judge && !this.outcome) {
+                this.outcome = this.judge.update(this.simulation);
+                if (this.outcome && this.outcome.completed) {
+                    ChallengeProgress.complete(this.props.challenge.id);
                 }
             }
         }
 
-        private findAndResolveCollisions() {
-            // Loop through solids first
-            for (const a of this.entities) {
-                if (a.collisionClass === CollisionClass.solid) {
-                    // Loop through all other entities and check for collisions
-                    for (const b of this.entities) {
-                        if (a !== b) {
-                            const overlapDistance = Coliseum.getCollisionOverlap(a, b);
-                            if (overlapDistance > 0) {
-                                if (b.collisionClass === CollisionClass.solid) {
-                                    // Collision with solid; resolve
-                                    const directionAToB = Math.atan2(b.y - a.y, b.x - a.x);
-                                    const dax = -overlapDistance / 2 * Math.cos(directionAToB) * 1.0001;
-                                    const day = -overlapDistance / 2 * Math.sin(directionAToB) * 1.0001;
-                                    a.x += dax;
-                                    a.y += day;
-                                    b.x -= dax;
-                                    b.y -= day;
-                                } else {
-                                    // Collision with massless
-                                    a.collided(b);
-                                }
-                            }
-                        }
-                    }
-                }
+        private getResultText(): string {
+            if (this.outcome) {
+                return this.outcome.completed ? "Challenge complete" : "Challenge failed";
             }
-        }
 
-        private updateEntities() {
-            // Check to see if we've started
-            if (this.startTimer > 0) {
-                this.startTimer--;
-                return;
+            const winner = this.simulation.result.winner;
+            if (winner === null) {
+                return "Tie";
+            } else if (this.props.scenario === Scenario.youVersusEnemy) {
+                return (winner === Coliseum.playerIndex) ? "You win" : "You lose";
+            } else {
+                return `${this.props.labels[winner]} wins`;
             }
+        }
 
-            // Check to see if both robots are around
-            const bots = this.entities.filter(e => isBot(e)) as Bot[];
-            const inCombat = bots.length > 1;
+        /** Draws the latest tick */
+        public draw = () => {
+            this.drawFrame(this.recorder.latestFrame);
+        }
 
-            // Update entities (and add any new ones they create)
-            let newEntities = [];
-            for (const e of this.entities) {
-                const getEnvironmentForEntity = () => this.getEnvironment(e);
-                e.update();
+        private drawFrame(frame: ReplayFrame) {
+            this.renderer.drawFrame(frame, this.simulation.map.obstacles);
+            if (this.simulation.rules.sensors && this.state.showSensors) {
+                this.renderer.drawSensorCoverage(frame);
+            }
 
-                if (inCombat && isScriptable(e)) {
-                    const result = e.updateWithEnvironment(getEnvironmentForEntity);
-                    if (result) {
-                        newEntities = newEntities.concat(result);
+            const drawings = this.props.drawings;
+            if (drawings && this.state.showDebug) {
+                frame.bots.forEach((b, index) => {
+                    if (!b.dead && drawings[index]) {
+                        this.renderer.drawDebugShapes(drawings[index], ArenaRenderer.botColors[index]);
                     }
-                }
+                });
             }
-            this.entities = this.entities.concat(newEntities);
 
-            this.findAndResolveCollisions();
-            this.enforceBounds();
+            this.renderer.drawStatus(`Tick ${frame.tick}    ${formatMatchTime(frame.tick - Simulation.startTimerPeriod)}`);
 
-            this.entities = this.entities.filter(e => !e.dead);
-
-            // Check for end
-            if (!inCombat) {
-                // Wait bit to declare a victor
-                if (this.endTimer-- <= 0) {
-                    let simulationResult: SimulationResult;
-                    if (bots.length === 1) {
-                        simulationResult = (bots[0].initialize === this.props.left) ? SimulationResult.leftWins : SimulationResult.rightWins;
-                    } else {
-                        simulationResult = SimulationResult.tie;
-                    }
+            if (this.simulation.startTimer > 0) {
+                this.renderer.drawLabels(frame, this.props.labels);
+            }
 
-                    this.result = simulationResult;
-                    this.unhookUpdate();
+            if (this.matchOver) {
+                const result = this.simulation.result;
+                const message = this.outcome ? this.outcome.message : ((result && result.timedOut) ? "Time's up (survivors are ranked by health)" : null);
+                this.renderer.drawText(this.getResultText(), 0, 0, TextAlignment.center);
+                if (message) {
+                    this.renderer.drawText(message, 0, -1.5, TextAlignment.center, 1);
                 }
+                this.renderer.drawText(`Seed: ${this.simulation.seed}`, 0, message ? -3 : -2, TextAlignment.center, 1);
             }
         }
 
-        private start() {
-            this.result = null;
-            this.startTimer = Coliseum.startTimerPeriod;
-            this.endTimer = Coliseum.endTimerPeriod;
-            this.entities = [
-                new Bot(-10 * Math.random(), 20 * Math.random() - 10, this.props.left),
-                new Bot(10 * Math.random(), 20 * Math.random() - 10, this.props.right),
-            ];
+        /** Runs (up to) the given number of ticks; returns false if the simulation was restarted or another update was in progress */
+        private async advance(ticks: number): Promise<boolean> {
+            // Robots think in workers, so don't start another update while the previous tick is still waiting on them
+            if (this.updating) {
+                return false;
+            }
 
-            this.unhookUpdate();
-            this.hookUpdate();
+            const simulation = this.simulation;
+            this.updating = true;
+            try {
+                for (let i = 0; i < ticks && !this.matchOver; i++) {
+                    await simulation.updateAsync();
+                    if (simulation !== this.simulation) {
+                        // Restarted while waiting
+                        return false;
+                    }
+
+                    this.recorder.record();
+                    this.updateOutcome();
+                }
+            } finally {
+                this.updating = false;
+            }
+
+            if (this.matchOver) {
+                this.unhookUpdate();
+                this.setState({ replay: this.recorder.getReplay() });
+            }
+            return true;
         }
 
-        private drawText(text: string, x: number, y: number, alignment: TextAlignment) {
-            this.renderingContext.font = "2px sans-serif";
-            this.renderingContext.fillStyle = "white";
+        /** Called on each animation frame: runs any ticks that are due and then draws (between the last two ticks) */
+        public update = async (time: number) => {
+            if (!this.visible()) {
+                this.unhookUpdate();
+                return;
+            }
 
-            const width = this.renderingContext.measureText(text).width;
-            let offset: number;
-            switch (alignment) {
-                case TextAlignment.left: offset = 0; break;
-                case TextAlignment.center: offset = -width / 2; break;
-                case TextAlignment.right: offset = -width; break;
+            this.animationToken = requestAnimationFrame(this.update);
+            const seconds = (this.lastFrameTime === null) ? 0 : Math.min(Coliseum.maxFrameSeconds, (time - this.lastFrameTime) / 1000);
+            this.lastFrameTime = time;
+
+            // Don't build up a backlog of ticks if the robots can't keep up
+            if (!this.updating) {
+                const simulation = this.simulation;
+                this.pendingTicks += seconds * Coliseum.fps * this.state.speed;
+                const ticks = Math.floor(this.pendingTicks);
+                if (ticks > 0 && await this.advance(ticks)) {
+                    this.pendingTicks -= ticks;
+                }
+
+                if (!this.visible() || simulation !== this.simulation || (this.animationToken === null && !this.matchOver)) {
+                    // Closed, restarted, or paused while the robots were thinking
+                    return;
+                }
             }
 
-            this.renderingContext.scale(1, -1);
-            this.renderingContext.fillText(text, x + offset, y);
-            this.renderingContext.scale(1, -1);
+            if (this.matchOver) {
+                this.draw();
+            } else {
+                this.drawFrame(interpolateFrames(this.recorder.previousFrame, this.recorder.latestFrame, Math.min(1, this.pendingTicks)));
+            }
         }
 
-        public draw = () => {
-            this.renderingContext.fillStyle = "gray";
-            this.renderingContext.fillRect(-this.width / 2, -this.height / 2, this.width, this.height);
-            this.renderingContext.fillStyle = "black";
-            this.renderingContext.fillRect(-Coliseum.maxDistance, -Coliseum.maxDistance, Coliseum.maxDistance * 2, Coliseum.maxDistance * 2);
+        private resize = () => {
+            const size = getArenaSize();
+            this.renderer.resize(size, size);
+            if (this.simulation) {
+                this.draw();
+            }
+        };
 
-            this.renderingContext.lineWidth = 0.1;
-            this.entities.forEach(a => a.draw(this.renderingContext));
+        private pause = () => {
+            this.unhookUpdate();
+            this.setState({ paused: true, skipping: false });
+            requestAnimationFrame(this.draw);
+        };
+
+        private resume = () => {
+            this.unhookUpdate();
+            this.hookUpdate();
+            this.setState({ paused: false, skipping: false });
+        };
 
-            if (this.startTimer > 0) {
-                this.drawText(Coliseum.robotLabels[this.props.scenario][0], -Coliseum.maxDistance / 2, 0, TextAlignment.center);
-                this.drawText(Coliseum.robotLabels[this.props.scenario][1], Coliseum.maxDistance / 2, 0, TextAlignment.center);
+        private step = async () => {
+            this.pause();
+            if (await this.advance(1)) {
+                requestAnimationFrame(this.draw);
             }
+        };
 
-            if (this.result !== null) {
-                this.drawText(Coliseum.resultString[this.props.scenario][this.result], 0, 0, TextAlignment.center);
+        private skipToEnd = async () => {
+            this.unhookUpdate();
+            this.setState({ skipping: true, paused: false });
+
+            // Compute in chunks (so that the page stays responsive and skipping can be stopped by pausing)
+            const simulation = this.simulation;
+            while (this.visible() && simulation === this.simulation && !this.matchOver && this.state.skipping) {
+                await this.advance(Coliseum.skipChunkTicks);
+                await new Promise(resolve => window.setTimeout(resolve, 0));
             }
-        }
 
-        public update = () => {
-            if (this.visible()) {
-                this.updateEntities();
+            if (this.visible() && simulation === this.simulation) {
+                this.setState({ skipping: false });
                 requestAnimationFrame(this.draw);
-            } else {
-                this.unhookUpdate();
             }
-        }
+        };
 
         public componentDidMount() {
             if (this.visible()) {
-                this.renderingContext = this.canvas.current.getContext("2d");
-
-                // TODO: Move to helper?
-                let scale: number;
-                const canvas = this.canvas.current;
-                if (canvas.width < canvas.height) {
-                    scale = canvas.width / (2 * Coliseum.maxDistance);
-                    this.width = (2 * Coliseum.maxDistance);
-                    this.height = canvas.height / scale;
-                } else {
-                    scale = canvas.height / (2 * Coliseum.maxDistance);
-                    this.height = (2 * Coliseum.maxDistance);
-                    this.width = canvas.width / scale;
-                }
-
-                this.renderingContext.scale(scale, -scale);
-                this.renderingContext.translate(this.width / 2, -this.height / 2);
-
+                this.renderer = new ArenaRenderer(this.canvas.current);
+                this.resize();
+                window.addEventListener("resize", this.resize);
                 this.start();
             }
         }
 
-        public componentDidUpdate() {
-            this.start();
+        public componentDidUpdate(previousProps: ColiseumProperties, previousState: ColiseumState) {
+            if (this.props.bots !== previousProps.bots || this.props.seed !== previousProps.seed) {
+                this.start();
+            } else if (this.animationToken === null && (this.state.showDebug !== previousState.showDebug || this.state.showSensors !== previousState.showSensors)) {
+                // (While running, the next animation frame takes care of this)
+                requestAnimationFrame(this.draw);
+            }
         }
 
-        public render() {
-            return <canvas className="bordered" ref={this.canvas} width={this.props.width} height={this.props.height} tabIndex={1}></canvas>;
+        public componentWillUnmount() {
+            window.removeEventListener("resize", this.resize);
+            this.unhookUpdate();
         }
-    }
 
-    enum CodeFile {
-        tutorial1,
-        tutorial2,
-        tutorial3,
-        main,
-        left,
+        public render() {
+            const replay = this.state.replay;
+            const finished = !!replay;
+            return <>
+                <canvas className="bordered" ref={this.canvas} tabIndex={1}></canvas>
+                <div className="simulationControls">
+                    {
+                        (this.state.paused || this.state.skipping)
+                        ? <button onClick={this.resume} disabled={finished}>Resume</button>
+                        : <button onClick={this.pause} disabled={finished}>Pause</button>
+                    }
+                    <button onClick={this.step} disabled={finished || this.state.skipping} title="Advance one tick">Step</button>
+                    <label>Speed: <select value={this.state.speed} onChange={(event) => this.setState({ speed: parseFloat(event.target.value) })}>
+                        {Coliseum.speeds.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                    </select></label>
+                    <button onClick={this.skipToEnd} disabled={finished || this.state.skipping}>{this.state.skipping ? "Skipping..." : "Skip to end"}</button>
+                    {
+                        this.props.drawings
+                        ? <label><input type="checkbox" checked={this.state.showDebug} onChange={(event) => this.setState({ showDebug: event.target.checked })} /> Show debug drawing</label>
+                        : null
+                    }
+                    {
+                        this.props.rules.sensors
+                        ? <label><input type="checkbox" checked={this.state.showSensors} onChange={(event) => this.setState({ showSensors: event.target.checked })} /> Show sensor coverage</label>
+                        : null
+                    }
+                </div>
+                {this.props.log ? <LogPanel log={this.props.log} labels={this.props.labels} /> : null}
+                {
+                    replay
+                    ? <div>
+                        {this.outcome ? <p className={this.outcome.completed ? null : "error"}>{this.getResultText()}: {this.outcome.message}</p> : null}
+                        {replay.result ? <ResultTable result={replay.result} labels={replay.labels} ticksPerSecond={replay.ticksPerSecond} /> : null}
+                        {replay.result ? <StatisticsPanel replay={replay} /> : null}
+                        <button onClick={() => ReplayViewer.show(replay)}>Watch replay</button>
+                        <button onClick={() => downloadReplay(replay)}>Download replay</button>
+                    </div>
+                    : null
+                }
+            </>;
+        }
+    }
+
+    class ReplayViewer extends React.Component<{ replay: Replay }, { index: number, playing: boolean, showSensors: boolean }> {
+        private canvas = React.createRef<HTMLCanvasElement>();
+        private renderer?: ArenaRenderer = null;
+        private updateToken?: number = null;
+
+        public static show(replay: Replay) {
+            MessageBox.show("Replay", <ReplayViewer replay={replay} />, true);
+        }
+
+        constructor(props) {
+            super(props);
+            this.state = { index: 0, playing: false, showSensors: true };
+        }
+
+        private get lastIndex(): number {
+            return this.props.replay.frames.length - 1;
+        }
+
+        private hookUpdate() {
+            this.updateToken = window.setInterval(this.advance, 1000 / this.props.replay.ticksPerSecond);
+        }
+
+        private unhookUpdate() {
+            if (this.updateToken !== null) {
+                window.clearInterval(this.updateToken);
+                this.updateToken = null;
+            }
+        }
+
+        private advance = () => {
+            if (this.state.index < this.lastIndex) {
+                this.seek(this.state.index + 1);
+            } else {
+                this.pause();
+            }
+        }
+
+        private play = () => {
+            if (this.state.index >= this.lastIndex) {
+                this.seek(0);
+            }
+
+            this.unhookUpdate();
+            this.hookUpdate();
+            this.setState({ playing: true });
+        }
+
+        private pause = () => {
+            this.unhookUpdate();
+            this.setState({ playing: false });
+        }
+
+        private seek(index: number) {
+            this.setState({ index: Math.max(0, Math.min(this.lastIndex, index)) });
+        }
+
+        private step(delta: number) {
+            this.pause();
+            this.seek(this.state.index + delta);
+        }
+
+        private getResultText(): string {
+            const replay = this.props.replay;
+            if (!replay.result) {
+                return null;
+            }
+
+            const winner = replay.result.winner;
+            const text = (winner === null) ? "Tie" : `Winner: ${replay.labels[winner]}`;
+            return replay.result.timedOut ? `${text} (time's up)` : text;
+        }
+
+        private draw() {
+            const replay = this.props.replay;
+            const frame = replay.frames[this.state.index];
+            this.renderer.drawFrame(frame, replay.map.obstacles);
+            if (this.props.replay.rules.sensors && this.state.showSensors) {
+                this.renderer.drawSensorCoverage(frame);
+            }
+
+            if (frame.tick < replay.startTicks) {
+                this.renderer.drawLabels(frame, replay.labels);
+            }
+
+            if (this.state.index === this.lastIndex) {
+                const resultText = this.getResultText();
+                if (resultText) {
+                    this.renderer.drawText(resultText, 0, 0, TextAlignment.center);
+                }
+            }
+        }
+
+        private resize = () => {
+            const size = getArenaSize();
+            this.renderer.resize(size, size);
+            this.draw();
+        };
+
+        public componentDidMount() {
+            this.renderer = new ArenaRenderer(this.canvas.current);
+            this.resize();
+            window.addEventListener("resize", this.resize);
+        }
+
+        public componentDidUpdate() {
+            this.draw();
+        }
+
+        public componentWillUnmount() {
+            window.removeEventListener("resize", this.resize);
+            this.unhookUpdate();
+        }
+
+        public render() {
+            const replay = this.props.replay;
+            const frame = replay.frames[this.state.index];
+            return <>
+                <canvas className="bordered" ref={this.canvas} tabIndex={1}></canvas>
+                <div className="replayControls">
+                    <button onClick={() => this.step(-1)} title="Previous frame">&lt;</button>
+                    {
+                        this.state.playing
+                        ? <button onClick={this.pause}>Pause</button>
+                        : <button onClick={this.play}>Play</button>
+                    }
+                    <button onClick={() => this.step(1)} title="Next frame">&gt;</button>
+                    <input type="range" min={0} max={this.lastIndex} value={this.state.index} onChange={(event) => this.seek(parseInt(event.target.value, 10))} />
+                    <span>Tick {frame.tick} / {replay.frames[this.lastIndex].tick}</span>
+                    {
+                        replay.rules.sensors
+                        ? <label><input type="checkbox" checked={this.state.showSensors} onChange={(event) => this.setState({ showSensors: event.target.checked })} /> Show sensor coverage</label>
+                        : null
+                    }
+                </div>
+                {
+                    (replay.result && this.state.index === this.lastIndex)
+                    ? <>
+                        <ResultTable result={replay.result} labels={replay.labels} ticksPerSecond={replay.ticksPerSecond} />
+                        <StatisticsPanel replay={replay} />
+                    </>
+                    : null
+                }
+                <div>
+                    Seed: {replay.seed} (map: {replay.map.name}, time limit: {replay.rules.timeLimit} s{replay.rules.energy ? ", energy" : ""}{replay.rules.powerUps ? ", power-ups" : ""}{replay.rules.sensors ? ", sensors" : ""})
+                    <button onClick={() => downloadReplay(replay)}>Download replay</button>
+                </div>
+            </>;
+        }
+    }
+
+    class ReplayImporter extends React.Component<{}, { error?: Error }> {
+        constructor(props) {
+            super(props);
+            this.state = {};
+        }
+
+        private import = (event: React.ChangeEvent<HTMLInputElement>) => {
+            const input = event.target;
+            const file = input.files[0];
+            if (file) {
+                const reader = new FileReader();
+                reader.onload = () => {
+                    try {
+                        const replay = parseReplay(reader.result as string);
+                        this.setState({ error: null });
+                        ReplayViewer.show(replay);
+                    } catch (error) {
+                        this.setState({ error });
+                    }
+                };
+                reader.readAsText(file);
+            }
+
+            // Allow the same file to be opened again
+            input.value = "";
+        };
+
+        public render() {
+            return <>
+                <p>Open a downloaded replay: <input type="file" accept=".json,application/json" onChange={this.import} /></p>
+                {this.state.error ? <p className="error">{this.state.error.toString()}</p> : null}
+            </>;
+        }
+    }
+
+    /** Places where a robot from the library is used (each slot remembers which robot was last selected there) */
+    enum BotSlot {
+        tutorial1,
+        tutorial2,
+        tutorial3,
+        main,
+        left,
         right,
     }
 
-    const codeFileToDefaultCode = {
-        [CodeFile.tutorial1]: createTemplateCode(`var directionDelta = Math.PI / 100`,
+    const botSlotToDefaultCode = {
+        [BotSlot.tutorial1]: createTemplateCode(`var directionDelta = Math.PI / 100`,
 `
     // This example just spins around shooting constantly
     self.shootDirection += directionDelta;
     self.shoot = true;
 `),
 
-        [CodeFile.tutorial2]: createTemplateCode("",
+        [BotSlot.tutorial2]: createTemplateCode("",
 `
     // Aim at the enemy using Math.atan2 to compute the correct angle
     if (environment.enemy) {
@@ -711,7 +1062,7 @@ namespace Battle {
     }
 `),
 
-        [CodeFile.tutorial3]: createTemplateCode("",
+        [BotSlot.tutorial3]: createTemplateCode("",
 `
     if (environment.enemy) {
         self.shootDirection = Math.atan2(environment.enemy.y - self.y, environment.enemy.x - self.x);
@@ -719,199 +1070,1186 @@ namespace Battle {
     }
 `),
 
-        [CodeFile.main]: createTemplateCode("", "\n    // Code goes here\n"),
-        [CodeFile.left]: createTemplateCode("", "\n    // Code goes here\n"),
-        [CodeFile.right]: createTemplateCode("", "\n    // Code goes here\n"),
-            };
+        [BotSlot.main]: createTemplateCode("", "\n    // Code goes here\n"),
+        [BotSlot.left]: createTemplateCode("", "\n    // Code goes here\n"),
+        [BotSlot.right]: createTemplateCode("", "\n    // Code goes here\n"),
+    };
+
+    /** Names for the robots initially created for each slot */
+    const botSlotToDefaultName = {
+        [BotSlot.tutorial1]: "Sitting Duck challenger",
+        [BotSlot.tutorial2]: "Moving Duck challenger",
+        [BotSlot.tutorial3]: "Turret challenger",
+        [BotSlot.main]: "Challenger",
+        [BotSlot.left]: "Arena left",
+        [BotSlot.right]: "Arena right",
+    };
+
+    interface LibraryBot {
+        id: string;
+        name: string;
+        code: string;
+
+        /** Language of the robot's code (missing for robots saved before other languages were supported) */
+        language?: BotLanguage;
+    }
+
+    function getBotLanguage(bot: { language?: BotLanguage }): BotLanguage {
+        return bot.language || defaultBotLanguage;
+    }
+
+    interface LibraryData {
+        bots: LibraryBot[];
+
+        /** Id of the robot selected for each slot (keyed by slot name) */
+        selections: { [slot: string]: string };
+    }
+
+    const allBotSlots = [BotSlot.tutorial1, BotSlot.tutorial2, BotSlot.tutorial3, BotSlot.main, BotSlot.left, BotSlot.right];
+
+    /** Ids of completed challenges (persisted in local storage) */
+    class ChallengeProgress {
+        private static readonly key = "cc_challenges";
+        private static completed: string[] = null;
+        private static listeners: (() => void)[] = [];
+
+        private static load(): string[] {
+            if (!ChallengeProgress.completed) {
+                let completed: string[] = null;
+                try {
+                    completed = JSON.parse(localStorage.getItem(ChallengeProgress.key));
+                } catch (e) {}
+
+                ChallengeProgress.completed = Array.isArray(completed) ? completed : [];
+            }
+            return ChallengeProgress.completed;
+        }
+
+        public static addListener(listener: () => void): void {
+            ChallengeProgress.listeners.push(listener);
+        }
+
+        public static removeListener(listener: () => void): void {
+            ChallengeProgress.listeners = ChallengeProgress.listeners.filter(l => l !== listener);
+        }
+
+        public static isCompleted(id: string): boolean {
+            return ChallengeProgress.load().indexOf(id) >= 0;
+        }
+
+        public static complete(id: string): void {
+            if (!ChallengeProgress.isCompleted(id)) {
+                ChallengeProgress.load().push(id);
+                try {
+                    localStorage.setItem(ChallengeProgress.key, JSON.stringify(ChallengeProgress.completed));
+                } catch (e) {}
+
+                ChallengeProgress.listeners.forEach(l => l());
+            }
+        }
+    }
+
+    /** Named robots (persisted in local storage); every slot always has a robot selected */
+    class BotLibrary {
+        private static readonly key = "cc_library";
+        private static data: LibraryData = null;
+        private static listeners: (() => void)[] = [];
+
+        /** Robot opened from a shared link (kept in memory only, unless it is imported) */
+        private static sharedBot: LibraryBot = null;
+
+        /** Robots that were selected before the shared robot took their place (these are saved instead) */
+        private static selectionsBeforeShared: { [slot: string]: string } = {};
+
+        /** Key under which code for a slot was stored before the library existed */
+        private static getLegacyKey(slot: BotSlot): string {
+            return `cc_${BotSlot[slot]}`;
+        }
+
+        private static createId(): string {
+            return `${Date.now().toString(36)}${Math.floor(Math.random() * 0x100000000).toString(36)}`;
+        }
+
+        private static load(): LibraryData {
+            if (!BotLibrary.data) {
+                let data: LibraryData = null;
+                try {
+                    data = JSON.parse(localStorage.getItem(BotLibrary.key));
+                } catch (e) {}
+
+                if (!data || !Array.isArray(data.bots) || !data.selections) {
+                    data = { bots: [], selections: {} };
+                }
+
+                BotLibrary.data = data;
+
+                // Create robots for any slots without one (migrating code saved before the library existed)
+                let changed = false;
+                for (const slot of allBotSlots) {
+                    if (!BotLibrary.getBot(data.selections[BotSlot[slot]])) {
+                        let code: string = null;
+                        try {
+                            code = localStorage.getItem(BotLibrary.getLegacyKey(slot));
+                        } catch (e) {}
 
-    class CodeManager {
-        private static codeFileToKey(codeFile: CodeFile): string {
-            return `cc_${CodeFile[codeFile]}`;
+                        const bot = BotLibrary.add(botSlotToDefaultName[slot], code || botSlotToDefaultCode[slot]);
+                        data.selections[BotSlot[slot]] = bot.id;
+                        changed = true;
+                    }
+                }
+
+                if (changed) {
+                    BotLibrary.save();
+                }
+            }
+            return BotLibrary.data;
         }
 
-        public static loadCode(codeFile: CodeFile): string {
-            let code: string = null;
+        private static save(): void {
+            const data = BotLibrary.data;
+            const selections = { ...data.selections };
+            for (const slot in selections) {
+                if (BotLibrary.isShared(selections[slot])) {
+                    selections[slot] = BotLibrary.selectionsBeforeShared[slot];
+                }
+            }
+
             try {
-                code = localStorage.getItem(CodeManager.codeFileToKey(codeFile));
+                localStorage.setItem(BotLibrary.key, JSON.stringify({ bots: data.bots, selections }));
             } catch (e) {}
+        }
+
+        private static saveAndNotify(): void {
+            BotLibrary.save();
+            BotLibrary.listeners.forEach(l => l());
+        }
+
+        /** Appends a number to the name if it is already in use (e.g. "Robot", "Robot 2") */
+        private static getUniqueName(name: string): string {
+            const bots = BotLibrary.load().bots;
+            let uniqueName = name;
+            for (let i = 2; bots.some(b => b.name === uniqueName); i++) {
+                uniqueName = `${name} ${i}`;
+            }
+            return uniqueName;
+        }
+
+        private static add(name: string, code: string, language: BotLanguage = defaultBotLanguage): LibraryBot {
+            const bot: LibraryBot = { id: BotLibrary.createId(), name: BotLibrary.getUniqueName(name), code, language };
+            BotLibrary.load().bots.push(bot);
+            return bot;
+        }
+
+        public static addListener(listener: () => void): void {
+            BotLibrary.listeners.push(listener);
+        }
+
+        public static removeListener(listener: () => void): void {
+            BotLibrary.listeners = BotLibrary.listeners.filter(l => l !== listener);
+        }
+
+        public static getBots(): LibraryBot[] {
+            const bots = BotLibrary.load().bots;
+            return BotLibrary.sharedBot ? bots.concat([BotLibrary.sharedBot]) : bots;
+        }
+
+        public static getBot(id: string): LibraryBot | undefined {
+            return BotLibrary.getBots().find(b => b.id === id);
+        }
+
+        public static isShared(id: string): boolean {
+            return !!BotLibrary.sharedBot && BotLibrary.sharedBot.id === id;
+        }
+
+        public static getSelectedBot(slot: BotSlot): LibraryBot {
+            return BotLibrary.getBot(BotLibrary.load().selections[BotSlot[slot]]);
+        }
+
+        public static select(slot: BotSlot, id: string): void {
+            const selections = BotLibrary.load().selections;
+            const key = BotSlot[slot];
+            if (BotLibrary.isShared(id) && !BotLibrary.isShared(selections[key])) {
+                BotLibrary.selectionsBeforeShared[key] = selections[key];
+            }
+
+            selections[key] = id;
+            BotLibrary.saveAndNotify();
+        }
+
+        /** Adds a copy of the robot to the library */
+        public static import(bot: SharedBot): LibraryBot {
+            const imported = BotLibrary.add(bot.name, bot.code, getBotLanguage(bot));
+            BotLibrary.saveAndNotify();
+            return imported;
+        }
+
+        /** Selects the robot for the slot, without saving it in the library (replacing any other shared robot) */
+        public static openShared(slot: BotSlot, bot: SharedBot): void {
+            if (BotLibrary.sharedBot) {
+                BotLibrary.delete(BotLibrary.sharedBot.id);
+            }
+
+            BotLibrary.sharedBot = { id: BotLibrary.createId(), name: bot.name, code: bot.code, language: getBotLanguage(bot) };
+            BotLibrary.select(slot, BotLibrary.sharedBot.id);
+        }
+
+        /** Saves the shared robot in the library */
+        public static importShared(): void {
+            const bot = BotLibrary.sharedBot;
+            BotLibrary.sharedBot = null;
+            bot.name = BotLibrary.getUniqueName(bot.name);
+            BotLibrary.load().bots.push(bot);
+            BotLibrary.saveAndNotify();
+        }
+
+        /** Creates a new robot (with the slot's template code) and selects it for the slot */
+        public static create(slot: BotSlot): LibraryBot {
+            const bot = BotLibrary.add("New robot", botSlotToDefaultCode[slot]);
+            BotLibrary.select(slot, bot.id);
+            return bot;
+        }
+
+        /** Copies the robot and selects the copy for the slot */
+        public static duplicate(slot: BotSlot, id: string): LibraryBot {
+            const original = BotLibrary.getBot(id);
+            const bot = BotLibrary.add(`${original.name} (copy)`, original.code, getBotLanguage(original));
+            BotLibrary.select(slot, bot.id);
+            return bot;
+        }
+
+        /** Renames the robot (the name is trimmed, and must not be empty or the name of another robot in the library) */
+        public static rename(id: string, name: string): void {
+            const trimmed = name.trim();
+            if (trimmed.length === 0) {
+                throw new Error("Robot names can't be empty");
+            }
+
+            if (BotLibrary.load().bots.some(b => b.id !== id && b.name === trimmed)) {
+                throw new Error(`There is already a robot named "${trimmed}"`);
+            }
+
+            BotLibrary.getBot(id).name = trimmed;
+            BotLibrary.saveAndNotify();
+        }
+
+        public static setLanguage(id: string, language: BotLanguage): void {
+            BotLibrary.getBot(id).language = language;
+            BotLibrary.saveAndNotify();
+        }
+
+        public static saveCode(id: string, code: string): void {
+            const bot = BotLibrary.getBot(id);
+            if (bot && bot.code !== code) {
+                bot.code = code;
+                BotLibrary.save();
+            }
+        }
+
+        /** Deletes the robot (any slots that had it selected switch to another robot, which is created if necessary) */
+        public static delete(id: string): void {
+            const data = BotLibrary.load();
+            data.bots = data.bots.filter(b => b.id !== id);
+            const shared = BotLibrary.isShared(id);
+            if (shared) {
+                BotLibrary.sharedBot = null;
+            }
+
+            for (const slot of allBotSlots) {
+                const key = BotSlot[slot];
+                if (data.selections[key] === id) {
+                    const previous = shared ? BotLibrary.selectionsBeforeShared[key] : null;
+                    data.selections[key] = BotLibrary.getBot(previous)
+                        ? previous
+                        : (data.bots.length > 0)
+                            ? data.bots[0].id
+                            : BotLibrary.add(botSlotToDefaultName[slot], botSlotToDefaultCode[slot]).id;
+                }
+            }
+            BotLibrary.saveAndNotify();
+        }
+    }
+
+    class CodeEditor extends React.Component<{ slot: BotSlot }, { error?: string }> {
+        private inputCodeRoot = React.createRef<HTMLDivElement>();
+        private inputCode: monaco.editor.IStandaloneCodeEditor;
+
+        /** Robot whose code is currently in the editor */
+        private loadedBotId: string = null;
+
+        constructor(props) {
+            super(props);
+            this.state = {};
+        }
+
+        public getCode(): string {
+            if (this.inputCode) {
+                return this.inputCode.getValue();
+            }
+        }
+
+        public getBotName(): string {
+            return BotLibrary.getSelectedBot(this.props.slot).name;
+        }
+
+        public getLanguage(): BotLanguage {
+            return getBotLanguage(BotLibrary.getSelectedBot(this.props.slot));
+        }
+
+        /** Switches the editor's language (for suggestions and error checking) to match the selected robot */
+        private updateEditorLanguage() {
+            if (this.inputCode) {
+                monaco.editor.setModelLanguage(this.inputCode.getModel(), getEditorLanguage(this.getLanguage()));
+            }
+        }
+
+        /** Saves any edits to the robot that is loaded in the editor */
+        private saveCode() {
+            if (this.inputCode && this.loadedBotId) {
+                BotLibrary.saveCode(this.loadedBotId, this.inputCode.getValue());
+            }
+        }
+
+        /** Loads the slot's selected robot into the editor (if it isn't already loaded) */
+        private loadCode() {
+            const bot = BotLibrary.getSelectedBot(this.props.slot);
+            if (this.inputCode && bot.id !== this.loadedBotId) {
+                this.loadedBotId = bot.id;
+                this.inputCode.setValue(bot.code);
+                this.setState({ error: null });
+            }
+        }
+
+        private handleLibraryChange = () => {
+            this.loadCode();
+            this.updateEditorLanguage();
+            this.forceUpdate();
+        };
+
+        private changeLanguage = (event: React.ChangeEvent<HTMLSelectElement>) => {
+            this.saveCode();
+            BotLibrary.setLanguage(this.loadedBotId, event.target.value as BotLanguage);
+        };
+
+        private select = (event: React.ChangeEvent<HTMLSelectElement>) => {
+            this.saveCode();
+            BotLibrary.select(this.props.slot, event.target.value);
+        };
+
+        /** Renames the robot once editing of its name is done (restoring the name if the new one is rejected) */
+        private rename = (event: React.FocusEvent<HTMLInputElement>) => {
+            const input = event.target;
+            const bot = BotLibrary.getSelectedBot(this.props.slot);
+            if (input.value !== bot.name) {
+                try {
+                    BotLibrary.rename(bot.id, input.value);
+                    this.setState({ error: null });
+                } catch (error) {
+                    this.setState({ error });
+                }
+                input.value = bot.name;
+            }
+        };
+
+        private create = () => {
+            this.saveCode();
+            BotLibrary.create(this.props.slot);
+        };
+
+        private duplicate = () => {
+            this.saveCode();
+            BotLibrary.duplicate(this.props.slot, this.loadedBotId);
+        };
+
+        private share = () => {
+            this.saveCode();
+            const bot = BotLibrary.getSelectedBot(this.props.slot);
+            MessageBox.show("Share robot", <ShareLink bot={{ name: bot.name, code: bot.code, language: getBotLanguage(bot) }} />);
+        };
+
+        private delete = () => {
+            const bot = BotLibrary.getSelectedBot(this.props.slot);
+            if (window.confirm(`Delete "${bot.name}"?`)) {
+                this.loadedBotId = null;
+                BotLibrary.delete(bot.id);
+            }
+        };
+
+        public async runCode(seed: number, budget: StepBudget, listener: WorkerBotListener): Promise<WorkerBot> {
+            const bot = new WorkerBot(listener);
+            try {
+                const code = this.inputCode.getValue();
+                const language = this.getLanguage();
+
+                // Take this opportunity to save
+                this.saveCode();
+
+                // Compile (here, so that workers don't need the compiler) and run (in a worker)
+                await bot.initialize(await compileBot(code, language), seed, budget);
+                return bot;
+            } catch (error) {
+                // Error during initialization
+                bot.terminate();
+                this.setState({ error });
+            }
+        }
+
+        public componentWillUnmount() {
+            BotLibrary.removeListener(this.handleLibraryChange);
+            this.saveCode();
+            this.inputCode = null;
+        }
+
+        public async componentDidMount() {
+            BotLibrary.addListener(this.handleLibraryChange);
+            const bot = BotLibrary.getSelectedBot(this.props.slot);
+            this.inputCode = await attachCodeEditor(this.inputCodeRoot.current, bot.code, getEditorLanguage(getBotLanguage(bot)));
+            this.loadedBotId = bot.id;
+
+            // The selection may have changed while the editor was loading
+            this.loadCode();
+            this.updateEditorLanguage();
+        }
+
+        public componentDidUpdate(previousProps) {
+            if (this.props.slot !== previousProps.slot) {
+                this.saveCode();
+                this.loadCode();
+                this.updateEditorLanguage();
+            }
+        }
+
+        public render() {
+            const selected = BotLibrary.getSelectedBot(this.props.slot);
+            return <>
+                <div>
+                    <label>Robot: <select value={selected.id} onChange={this.select}>
+                        {BotLibrary.getBots().map(b => <option key={b.id} value={b.id}>{b.name}{BotLibrary.isShared(b.id) ? " (shared)" : ""}</option>)}
+                    </select></label>
+                    <label>Name: <input key={`${selected.id}:${selected.name}`} defaultValue={selected.name} onBlur={this.rename} onKeyDown={(event) => (event.key === "Enter") && event.currentTarget.blur()} /></label>
+                    <label>Language: <select value={getBotLanguage(selected)} onChange={this.changeLanguage}>
+                        {(Object.keys(botLanguageNames) as BotLanguage[]).map(language => <option key={language} value={language}>{botLanguageNames[language]}</option>)}
+                    </select></label>
+                    <button onClick={this.create}>New</button>
+                    <button onClick={this.duplicate}>Duplicate</button>
+                    <button onClick={this.delete}>Delete</button>
+                    <button onClick={this.share}>Share</button>
+                </div>
+                {
+                    BotLibrary.isShared(selected.id)
+                    ? <p>This robot was opened from a shared link and is not saved in your library. <button onClick={() => BotLibrary.importShared()}>Import</button></p>
+                    : null
+                }
+                <div className="inputCodeRoot" ref={this.inputCodeRoot}></div>
+                {this.state.error ? <p className="error">{this.state.error.toString()}</p> : null}
+                </>;
+        }
+    }
+
+    function parsePositiveInteger(text: string, description: string): number {
+        const trimmed = text.trim();
+        const value = parseInt(trimmed, 10);
+        if (!/^\d+$/.test(trimmed) || value <= 0) {
+            throw new Error(`Invalid ${description}: "${text}" (must be a whole number greater than zero)`);
+        }
+        return value;
+    }
+
+    /** Appends a number to any repeated labels (e.g. "Turret", "Turret 2") */
+    function makeLabelsUnique(labels: string[]): string[] {
+        return labels.map((label, index) => {
+            const count = labels.slice(0, index + 1).filter(l => l === label).length;
+            return (count > 1) ? `${label} ${count}` : label;
+        });
+    }
+
+    function formatPercent(fraction: number): string {
+        return `${(fraction * 100).toFixed(1)}%`;
+    }
+
+    class EvaluationReport extends React.Component<{ result: EvaluationResult, openSeed: (seed: number) => void }> {
+        public render() {
+            const { result, openSeed } = this.props;
+            const count = result.matches.length;
+            return <div>
+                <table className="resultTable">
+                    <tbody>
+                        <tr><th>Wins</th><td>{result.wins} ({formatPercent(result.wins / count)}, 95% confidence interval: {formatPercent(result.winRateInterval[0])} to {formatPercent(result.winRateInterval[1])})</td></tr>
+                        <tr><th>Losses</th><td>{result.losses} ({formatPercent(result.losses / count)})</td></tr>
+                        <tr><th>Ties</th><td>{result.ties} ({formatPercent(result.ties / count)})</td></tr>
+                        <tr><th>Average match length</th><td>{(result.averageTicks / Simulation.ticksPerSecond).toFixed(1)} s</td></tr>
+                        <tr><th>Average remaining health</th><td>{result.averageHealth.toFixed(1)} / {Ship.maxHealth}</td></tr>
+                    </tbody>
+                </table>
+                {
+                    (result.lossSeeds.length > 0)
+                    ? <p>Watch a loss: {result.lossSeeds.map(seed => <button key={seed} onClick={() => openSeed(seed)}>Seed {seed}</button>)}</p>
+                    : null
+                }
+            </div>;
+        }
+    }
+
+    /** Selects one of the built-in maps (or a map opened from a file) */
+    class MapSelect extends React.Component<{ map: ArenaMap, onChange: (map: ArenaMap) => void, disabled?: boolean }, { customMap?: ArenaMap, error?: Error }> {
+        constructor(props) {
+            super(props);
+            this.state = {};
+        }
+
+        private getMaps(): ArenaMap[] {
+            return this.state.customMap ? builtInMaps.concat([this.state.customMap]) : builtInMaps;
+        }
+
+        private select = (event: React.ChangeEvent<HTMLSelectElement>) => {
+            this.props.onChange(this.getMaps()[parseInt(event.target.value, 10)]);
+        };
+
+        private open = (event: React.ChangeEvent<HTMLInputElement>) => {
+            const input = event.target;
+            const file = input.files[0];
+            if (file) {
+                const reader = new FileReader();
+                reader.onload = () => {
+                    try {
+                        const customMap = parseMap(reader.result as string);
+                        this.setState({ customMap, error: null });
+                        this.props.onChange(customMap);
+                    } catch (error) {
+                        this.setState({ error });
+                    }
+                };
+                reader.readAsText(file);
+            }
+
+            // Allow the same file to be opened again
+            input.value = "";
+        };
+
+        public render() {
+            return <>
+                <label>Map: <select value={this.getMaps().indexOf(this.props.map)} onChange={this.select} disabled={this.props.disabled}>
+                    {this.getMaps().map((m, index) => <option key={index} value={index}>{m.name}</option>)}
+                </select></label>
+                <label>Open a map file: <input type="file" accept=".json,application/json" onChange={this.open} disabled={this.props.disabled} /></label>
+                {this.state.error ? <p className="error">{this.state.error.toString()}</p> : null}
+            </>;
+        }
+    }
+
+    /** Options for optional rules */
+    class RulesSelect extends React.Component<{ rules: SimulationRules, onChange: (rules: SimulationRules) => void, disabled?: boolean }> {
+        public render() {
+            const { rules, onChange, disabled } = this.props;
+            return <>
+                <label><input type="checkbox" checked={rules.energy} disabled={disabled} onChange={(event) => onChange({ ...rules, energy: event.target.checked })} /> Energy (moving and shooting use energy, which regenerates over time)</label>
+                <label><input type="checkbox" checked={rules.powerUps} disabled={disabled} onChange={(event) => onChange({ ...rules, powerUps: event.target.checked })} /> Power-ups</label>
+                <label><input type="checkbox" checked={rules.sensors} disabled={disabled} onChange={(event) => onChange({ ...rules, sensors: event.target.checked })} /> Sensors (robots only detect what's within radar range or their scan cone)</label>
+            </>;
+        }
+    }
+
+    interface ColiseumEditorState {
+        error?: Error;
+        extraOpponents: number[];
+        map: ArenaMap;
+        rules: SimulationRules;
+
+        /** Number of matches evaluated so far (while an evaluation is running) */
+        evaluatedMatches?: number;
+        evaluationMatchCount?: number;
+        evaluationResult?: EvaluationResult;
+    }
+
+    interface ColiseumEditorProperties {
+        slot: BotSlot;
+        opponent: BotInitializer | BotSlot;
+        map?: ArenaMap;
+        rules?: SimulationRules;
+
+        /** Challenge being attempted (if any); its win condition decides the outcome of "Run simulation" */
+        challenge?: ChallengeDefinition;
+    }
+
+    class ColiseumEditor extends React.Component<ColiseumEditorProperties, ColiseumEditorState> {
+        /** Time (in milliseconds) to run matches before letting the page update, when evaluating */
+        private static readonly evaluationSliceTime = 50;
+        private static readonly evaluationTicksPerAdvance = 50;
+
+        private codeEditorLeft = React.createRef<CodeEditor>();
+        private codeEditorRight = React.createRef<CodeEditor>();
+        private inputEnemy = React.createRef<HTMLSelectElement>();
+        private inputSeed = React.createRef<HTMLInputElement>();
+        private inputThinkSteps = React.createRef<HTMLInputElement>();
+        private inputInitSteps = React.createRef<HTMLInputElement>();
+        private inputOverrunRule = React.createRef<HTMLSelectElement>();
+        private inputExtraOpponent = React.createRef<HTMLSelectElement>();
+        private inputEvaluationMatches = React.createRef<HTMLInputElement>();
+        private inputTimeLimit = React.createRef<HTMLInputElement>();
+        private workerBots: WorkerBot[] = [];
+        private evaluation: Evaluation | null = null;
+        private evaluationTimer: number | null = null;
+
+        constructor(props) {
+            super(props);
+            this.state = { extraOpponents: [], map: props.map || emptyMap, rules: props.rules || defaultRules };
+        }
+
+        private addExtraOpponent = () => {
+            const index = parseInt(this.inputExtraOpponent.current.value, 10);
+            this.setState({ extraOpponents: this.state.extraOpponents.concat([index]) });
+        };
+
+        private removeExtraOpponent(position: number) {
+            const extraOpponents = this.state.extraOpponents.slice();
+            extraOpponents.splice(position, 1);
+            this.setState({ extraOpponents });
+        }
+
+        private terminateWorkerBots() {
+            this.workerBots.forEach(b => b.terminate());
+            this.workerBots = [];
+        }
+
+        private logError(error: Error) {
+            this.setState({ error });
+        }
+
+        private logErrorAndStop(error: Error) {
+            this.setState({ error });
+            ReactDOM.unmountComponentAtNode(document.getElementById("outputRoot"));
+            this.terminateWorkerBots();
+        }
+
+        /** Returns the rules for the next match (using the requested time limit, in The Arena) */
+        private getRules(): SimulationRules {
+            if (isBotInitializer(this.props.opponent)) {
+                return this.state.rules;
+            }
+
+            const timeLimit = parsePositiveInteger(this.inputTimeLimit.current.value, "time limit");
+            return { ...this.state.rules, timeLimit };
+        }
+
+        /** Returns the requested seed, if provided (otherwise a new one) */
+        private getSeed(): number {
+            const seedText = this.inputSeed.current.value;
+            const seed = seedText.trim() ? parseSeed(seedText) : createSeed();
+            if (seed === null) {
+                throw new Error(`Invalid seed: "${seedText}" (seeds must be whole numbers between 0 and ${maxSeed})`);
+            }
+            return seed;
+        }
+
+        private getStepBudget(): StepBudget {
+            return {
+                initSteps: parsePositiveInteger(this.inputInitSteps.current.value, "initialization step budget"),
+                thinkSteps: parsePositiveInteger(this.inputThinkSteps.current.value, "step budget per tick"),
+                overrunRule: parseInt(this.inputOverrunRule.current.value, 10) as BudgetOverrunRule,
+            };
+        }
+
+        /** Creates a robot (the robot at the given index in the match) from an editor's code */
+        private async createScriptedBot(editor: CodeEditor, index: number, seed: number, budget: StepBudget, log: BotLog, drawings: DebugShape[][]): Promise<BotInitializer> {
+            if (this.state.error) {
+                this.setState({ error: null });
+            }
+
+            // Compile and run
+            const bot = await editor.runCode(seed, budget, {
+                reportOverrun: (error) => this.logError(error),
+                reportMessages: (messages) => log.add(index, messages),
+                reportDrawing: (shapes) => { drawings[index] = shapes; },
+
+                // Late errors are handled like any others (though a forfeit only takes effect on the robot's next turn)
+                reportLateError: (error) => (error instanceof BotForfeitError) ? this.logError(error) : this.logErrorAndStop(error),
+            });
+            if (bot) {
+                this.workerBots.push(bot);
+                const workerInitializer = bot.getInitializer();
+                const customInitializer: BotInitializer = () => {
+                    const think = workerInitializer();
+                    return (self: RobotState, environment: Environment) => (think(self, environment) as Promise<void>).catch((error) => {
+                        if (error instanceof BotForfeitError) {
+                            // Report the reason, but let the simulation handle the forfeit
+                            this.logError(error);
+                            throw error;
+                        }
 
-            if (!code) {
-                code = codeFileToDefaultCode[codeFile];
-            }
+                        // Error during execution
+                        this.logErrorAndStop(error);
+                    });
+                };
 
-            return code;
+                return customInitializer;
+            }
         }
 
-        public static saveCode(codeFile: CodeFile, code: string): void {
-            try {
-                if (code !== CodeManager.loadCode(codeFile)) {
-                    localStorage.setItem(CodeManager.codeFileToKey(codeFile), code);
+        public runSimulation = async () => {
+                let seed: number;
+                let budget: StepBudget;
+                let rules: SimulationRules;
+                try {
+                    seed = this.getSeed();
+                    budget = this.getStepBudget();
+                    rules = this.getRules();
+                } catch (error) {
+                    this.logError(error);
+                    return;
                 }
-            } catch (e) {}
-        }
-    }
 
-    class CodeEditor extends React.Component<{ codeFile: CodeFile }, { error?: string }> {
-        private inputCodeRoot = React.createRef<HTMLDivElement>();
-        private inputCode: monaco.editor.IStandaloneCodeEditor;
+                this.terminateWorkerBots();
+                const log = new BotLog();
+                const drawings: DebugShape[][] = [];
+                const left = isBotInitializer(this.props.opponent) ? this.props.opponent : await this.createScriptedBot(this.codeEditorLeft.current, 0, Simulation.getBotSeed(seed, 0), budget, log, drawings);
+                const right = await this.createScriptedBot(this.codeEditorRight.current, 1, Simulation.getBotSeed(seed, 1), budget, log, drawings);
+                if (right) {
+                    let bots = [left, right];
+                    let labels: string[];
+                    let scenario: Scenario;
+                    if (isBotInitializer(this.props.opponent)) {
+                        labels = ["Enemy", "You"];
+                        scenario = Scenario.youVersusEnemy;
+                    } else {
+                        // Free-for-all (if additional robots were added)
+                        const extras = this.state.extraOpponents.map(index => builtInBehaviors[index]);
+                        bots = bots.concat(extras.map(b => b.initializer));
+                        labels = makeLabelsUnique([this.codeEditorLeft.current.getBotName(), this.codeEditorRight.current.getBotName()].concat(extras.map(b => b.name)));
+                        scenario = Scenario.leftVersusRight;
+                    }
 
-        constructor(props) {
-            super(props);
-            this.state = {};
-        }
+                    // Once the simulation is closed, its robots' workers are no longer needed (this run's workers are captured,
+                    // since a new run replaces the message box after starting its own workers)
+                    const workerBots = this.workerBots;
+                    MessageBox.show("Simulation", <div id="outputRoot"><Coliseum bots={bots} labels={labels} seed={seed} map={this.state.map} rules={rules} scenario={scenario} log={log} drawings={drawings} challenge={this.props.challenge} /></div>, true,
+                        () => workerBots.forEach(b => b.terminate()));
+                }
+        };
 
-        public getCode(): string {
-            if (this.inputCode) {
-                return this.inputCode.getValue();
-            }
-        }
+        private openSeed = (seed: number) => {
+            this.inputSeed.current.value = seed.toString();
+            this.runSimulation();
+        };
 
-        public runCode(): Interpreter {
+        /** Runs the current robot (on the right) against the same opponents as "Run simulation" many times, headless */
+        private evaluate = async () => {
+            this.stopEvaluation();
             try {
-                const code = this.inputCode.getValue();
-
-                // Take this opportunity to save
-                CodeManager.saveCode(this.props.codeFile, code);
+                const seed = this.getSeed();
+                const budget = this.getStepBudget();
+                const matchCount = parsePositiveInteger(this.inputEvaluationMatches.current.value, "number of matches");
+
+                const opponent = this.props.opponent;
+                const left = isBotInitializer(opponent) ? null : await compileBot(this.codeEditorLeft.current.getCode(), this.codeEditorLeft.current.getLanguage());
+                const right = await compileBot(this.codeEditorRight.current.getCode(), this.codeEditorRight.current.getLanguage());
+                const extras = isBotInitializer(opponent) ? [] : this.state.extraOpponents.map(index => builtInBehaviors[index]);
+                const createBots = (matchSeed: number) => [
+                    isBotInitializer(opponent) ? opponent : createHeadlessScriptedBot(left, Simulation.getBotSeed(matchSeed, 0), budget),
+                    createHeadlessScriptedBot(right, Simulation.getBotSeed(matchSeed, 1), budget),
+                ].concat(extras.map(b => b.initializer));
+
+                this.evaluation = new Evaluation(createBots, 1, {
+                    matchCount,
+                    seed,
+                    map: this.state.map,
+                    rules: this.getRules(),
+                });
 
-                // Compile and run
-                // TODO: Limit number of steps (here and on each step)
-                const vm = new Interpreter(code);
-                vm.run();
-                return vm;
+                this.setState({ error: null, evaluatedMatches: 0, evaluationMatchCount: matchCount, evaluationResult: null });
+                this.evaluationTimer = window.setTimeout(this.runEvaluationSlice, 0);
             } catch (error) {
-                // Error during initialization
-                this.setState({ error });
+                this.logError(error);
             }
-        }
+        };
 
-        public componentWillUnmount() {
-            this.inputCode = null;
+        private cancelEvaluation() {
+            if (this.evaluationTimer !== null) {
+                window.clearTimeout(this.evaluationTimer);
+                this.evaluationTimer = null;
+            }
+            this.evaluation = null;
         }
 
-        public async componentDidMount() {
-            this.inputCode = await attachCodeEditor(this.inputCodeRoot.current, CodeManager.loadCode(this.props.codeFile));
-        }
+        private stopEvaluation = () => {
+            this.cancelEvaluation();
+            this.setState({ evaluationMatchCount: null });
+        };
+
+        private runEvaluationSlice = () => {
+            this.evaluationTimer = null;
+            const evaluation = this.evaluation;
+            const start = Date.now();
+            try {
+                while (evaluation.advance(ColiseumEditor.evaluationTicksPerAdvance) && Date.now() - start < ColiseumEditor.evaluationSliceTime) {}
+            } catch (error) {
+                // Error during initialization
+                this.stopEvaluation();
+                this.logError(error);
+                return;
+            }
+
+            if (evaluation.finished) {
+                this.evaluation = null;
+                this.setState({ evaluationMatchCount: null, evaluationResult: evaluation.getResult() });
+            } else {
+                this.setState({ evaluatedMatches: evaluation.completedMatchCount });
+                this.evaluationTimer = window.setTimeout(this.runEvaluationSlice, 0);
+            }
+        };
 
         public componentDidUpdate(previousProps) {
-            if (this.inputCode && this.props.codeFile !== previousProps.codeFile) {
-                this.inputCode.setValue(CodeManager.loadCode(this.props.codeFile));
+            if (this.props.map !== previousProps.map || this.props.rules !== previousProps.rules) {
+                this.setState({ map: this.props.map || emptyMap, rules: this.props.rules || defaultRules });
             }
         }
 
+        public componentWillUnmount() {
+            this.terminateWorkerBots();
+            this.cancelEvaluation();
+        }
+
         public render() {
             return <>
-                <div className="inputCodeRoot" ref={this.inputCodeRoot}></div>
+                {
+                    isBotInitializer(this.props.opponent)
+                    ? null
+                    : <>
+                        <p>Code for left robot:</p>
+                        <CodeEditor ref={this.codeEditorLeft} slot={this.props.opponent} />
+                        <p>Code for right robot:</p>
+                    </>
+                }
+                <CodeEditor ref={this.codeEditorRight} slot={this.props.slot} />
+                {
+                    isBotInitializer(this.props.opponent)
+                    ? null
+                    : <p>
+                        Additional robots (for a free-for-all):
+                        {this.state.extraOpponents.map((index, position) => <button key={position} title="Remove" onClick={() => this.removeExtraOpponent(position)}>{builtInBehaviors[index].name} &times;</button>)}
+                        <select ref={this.inputExtraOpponent}>
+                            {builtInBehaviors.map((b, index) => <option key={index} value={index}>{b.name}</option>)}
+                        </select>
+                        <button onClick={this.addExtraOpponent} disabled={2 + this.state.extraOpponents.length >= Simulation.maxBots}>Add</button>
+                    </p>
+                }
+                {
+                    isBotInitializer(this.props.opponent)
+                    ? null
+                    : <div>
+                        <MapSelect map={this.state.map} onChange={(map) => this.setState({ map })} />
+                        <RulesSelect rules={this.state.rules} onChange={(rules) => this.setState({ rules })} />
+                        <label>Time limit (seconds): <input ref={this.inputTimeLimit} type="number" min={1} defaultValue={defaultRules.timeLimit.toString()} /></label>
+                    </div>
+                }
+                <button onClick={this.runSimulation}>Run simulation</button>
+                <label>Seed: <input ref={this.inputSeed} placeholder="(random)" size={10} /></label>
+                <button onClick={this.evaluate} disabled={this.evaluation !== null}>Evaluate</button>
+                <label>Matches: <input ref={this.inputEvaluationMatches} type="number" min={1} defaultValue="50" size={5} /></label>
+                <div>
+                    <label>Steps per tick: <input ref={this.inputThinkSteps} type="number" min={1} defaultValue={defaultStepBudget.thinkSteps.toString()} /></label>
+                    <label>Initialization steps: <input ref={this.inputInitSteps} type="number" min={1} defaultValue={defaultStepBudget.initSteps.toString()} /></label>
+                    <label>When over budget: <select ref={this.inputOverrunRule} defaultValue={defaultStepBudget.overrunRule.toString()}>
+                        <option value={BudgetOverrunRule.skipTurn}>Skip turn</option>
+                        <option value={BudgetOverrunRule.forfeit}>Forfeit</option>
+                    </select></label>
+                </div>
                 {this.state.error ? <p className="error">{this.state.error.toString()}</p> : null}
-                </>;
+                {
+                    (this.evaluation !== null)
+                    ? <p>Evaluating match {this.state.evaluatedMatches + 1} of {this.state.evaluationMatchCount}... <button onClick={this.stopEvaluation}>Cancel</button></p>
+                    : null
+                }
+                {this.state.evaluationResult ? <EvaluationReport result={this.state.evaluationResult} openSeed={this.openSeed} /> : null}
+            </>;
         }
     }
 
-    const argumentStringPropertyName = "__COLISEUM_STRING";
-    const argumentsParsedProperytName = "__COLISEUM_PARSED";
-    const callbackWrapperCode =
-        `${argumentsParsedProperytName} = JSON.parse(${argumentStringPropertyName});
-        think(${argumentsParsedProperytName}.state, ${argumentsParsedProperytName}.environment);
-        ${argumentStringPropertyName} = JSON.stringify(${argumentsParsedProperytName});`;
+    class TournamentManager {
+        private static readonly key = "cc_tournaments";
 
-    class ColiseumEditor extends React.Component<{ codeFile: CodeFile, opponent: BotInitializer | CodeFile }, {error?: Error}> {
-        private codeEditorLeft = React.createRef<CodeEditor>();
-        private codeEditorRight = React.createRef<CodeEditor>();
-        private inputEnemy = React.createRef<HTMLSelectElement>();
+        /** Number of past tournament results to keep */
+        private static readonly maxResults = 10;
 
-        constructor(props) {
-            super(props);
-            this.state = {};
-        }
+        public static loadResults(): TournamentResult[] {
+            let results: TournamentResult[] = [];
+            try {
+                const text = localStorage.getItem(TournamentManager.key);
+                if (text) {
+                    results = JSON.parse(text);
+                }
+            } catch (e) {}
 
-        private logError(error: Error) {
-            this.setState({ error });
+            return Array.isArray(results) ? results : [];
         }
 
-        private logErrorAndStop(error: Error) {
-            this.setState({ error });
-            ReactDOM.unmountComponentAtNode(document.getElementById("outputRoot"));
+        public static saveResults(results: TournamentResult[]): void {
+            try {
+                localStorage.setItem(TournamentManager.key, JSON.stringify(results.slice(0, TournamentManager.maxResults)));
+            } catch (e) {}
         }
+    }
 
-        private createScriptedBot(editor: CodeEditor): BotInitializer {
-            if (this.state.error) {
-                this.setState({ error: null });
-            }
+    /** A robot that can be entered into a tournament */
+    interface TournamentCandidate {
+        /** Identifies the candidate (even if the library changes) */
+        key: string;
+        name: string;
 
-            try {
-                // Compile and run
-                // TODO: Limit number of steps (here and especially below)
-                const vm = editor.runCode();
-                if (vm) {
-                    const customInitializer: BotInitializer = () => {
-                        return (self: RobotState, environment: Environment) => {
+        /** Compiles the robot (if needed), returning a function that creates the robot for a match (given its seed) */
+        prepare: () => Promise<(seed: number) => BotInitializer>;
+    }
+
+    function getTournamentCandidates(): TournamentCandidate[] {
+        return builtInBehaviors
+            .map<TournamentCandidate>(b => ({
+                key: `builtIn:${b.name}`,
+                name: b.name,
+                prepare: async () => () => b.initializer,
+            }))
+            .concat(BotLibrary.getBots().map<TournamentCandidate>(b => {
+                const { name, code } = b;
+                const language = getBotLanguage(b);
+                return {
+                    key: `library:${b.id}`,
+                    name,
+                    prepare: async () => {
+                        let compiled: CompiledBot;
+                        try {
+                            compiled = await compileBot(code, language);
+                        } catch (error) {
+                            throw new Error(`${name}: ${error}`);
+                        }
+
+                        return (seed: number) => {
                             try {
-                                vm.setProperty(vm.global, argumentStringPropertyName, JSON.stringify({
-                                    state: self,
-                                    environment,
-                                }));
-
-                                vm.appendCode(callbackWrapperCode);
-                                vm.run();
-                                const resultState = JSON.parse(vm.getProperty(vm.global, argumentStringPropertyName) as string).state as RobotState;
-
-                                self.shootDirection = resultState.shootDirection;
-                                self.moveDirection = resultState.moveDirection;
-                                self.move = resultState.move;
-                                self.shoot = resultState.shoot;
+                                return createHeadlessScriptedBot(compiled, seed, defaultStepBudget);
                             } catch (error) {
-                                // Error during execution
-                                this.logErrorAndStop(error);
+                                throw new Error(`${name}: ${error}`);
                             }
                         };
-                    };
+                    },
+                };
+            }));
+    }
+
+    class TournamentResultView extends React.Component<{ result: TournamentResult }> {
+        public render() {
+            const { names, standings, headToHead } = this.props.result;
+            const order = names.map((name, index) => index).sort((a, b) => standings[b].rating - standings[a].rating);
+            return <>
+                <table className="resultTable">
+                    <thead>
+                        <tr><th>Place</th><th>Robot</th><th>Rating</th><th>Wins</th><th>Losses</th><th>Ties</th></tr>
+                    </thead>
+                    <tbody>
+                        {order.map((index, place) => {
+                            const standing = standings[index];
+                            return <tr key={index}>
+                                <td>{place + 1}</td>
+                                <td>{standing.name}</td>
+                                <td>{Math.round(standing.rating)}</td>
+                                <td>{standing.wins}</td>
+                                <td>{standing.losses}</td>
+                                <td>{standing.ties}</td>
+                            </tr>;
+                        })}
+                    </tbody>
+                </table>
+                <p>Head-to-head (wins-losses for each row's robot against each column's robot):</p>
+                <table className="resultTable">
+                    <thead>
+                        <tr><th></th>{order.map(index => <th key={index}>{names[index]}</th>)}</tr>
+                    </thead>
+                    <tbody>
+                        {order.map(a => <tr key={a}>
+                            <th>{names[a]}</th>
+                            {order.map(b => <td key={b}>{(a === b) ? "-" : `${headToHead[a][b]}-${headToHead[b][a]}`}</td>)}
+                        </tr>)}
+                    </tbody>
+                </table>
+            </>;
+        }
+    }
+
+    interface TournamentRunnerState {
+        /** Keys of candidates that have been left out of the tournament */
+        excluded: { [key: string]: boolean };
+        map: ArenaMap;
+        rules: SimulationRules;
+        completedMatches?: number;
+        matchCount?: number;
+        error?: Error;
+
+        /** Past results (most recent first) */
+        results: TournamentResult[];
+        resultIndex: number;
+    }
+
+    class TournamentRunner extends React.Component<{}, TournamentRunnerState> {
+        /** Time (in milliseconds) to run matches before letting the page update */
+        private static readonly sliceTime = 50;
+        private static readonly ticksPerAdvance = 50;
 
-                    return customInitializer;
+        private inputSeedsPerPairing = React.createRef<HTMLInputElement>();
+        private inputTimeLimit = React.createRef<HTMLInputElement>();
+        private tournament: Tournament | null = null;
+        private timer: number | null = null;
+
+        constructor(props) {
+            super(props);
+            this.state = {
+                excluded: {},
+                map: emptyMap,
+                rules: defaultRules,
+                results: TournamentManager.loadResults(),
+                resultIndex: 0,
+            };
+        }
+
+        private toggle(key: string) {
+            this.setState({ excluded: { ...this.state.excluded, [key]: !this.state.excluded[key] } });
+        }
+
+        private handleLibraryChange = () => {
+            this.forceUpdate();
+        };
+
+        private start = async () => {
+            this.stop();
+            try {
+                const seedsPerPairing = parsePositiveInteger(this.inputSeedsPerPairing.current.value, "number of seeds per pairing");
+                const timeLimit = parsePositiveInteger(this.inputTimeLimit.current.value, "time limit");
+                const candidates = getTournamentCandidates().filter(c => !this.state.excluded[c.key]);
+                if (candidates.length < 2) {
+                    throw new Error("Select at least two robots");
                 }
+
+                const names = makeLabelsUnique(candidates.map(c => c.name));
+                const entrants = await Promise.all(candidates.map(async (c, index): Promise<TournamentEntrant> => ({ name: names[index], createInitializer: await c.prepare() })));
+
+                this.tournament = new Tournament(entrants, {
+                    seedsPerPairing,
+                    seed: createSeed(),
+                    map: this.state.map,
+                    rules: { ...this.state.rules, timeLimit },
+                });
+
+                this.setState({ error: null, completedMatches: 0, matchCount: this.tournament.matchCount });
+                this.timer = window.setTimeout(this.runSlice, 0);
             } catch (error) {
-                // Error during initialization
-                this.logError(error);
+                this.setState({ error });
+            }
+        };
+
+        private cancel() {
+            if (this.timer !== null) {
+                window.clearTimeout(this.timer);
+                this.timer = null;
             }
+            this.tournament = null;
         }
 
-        public runSimulation = () => {
-                const left = isBotInitializer(this.props.opponent) ? this.props.opponent : this.createScriptedBot(this.codeEditorLeft.current);
-                const right = this.createScriptedBot(this.codeEditorRight.current);
-                if (right) {
-                    const size = Math.min(window.innerWidth, window.innerHeight) * 0.8;
-                    MessageBox.show("Simulation", <div id="outputRoot"><Coliseum width={size} height={size} left={left} right={right} scenario={isBotInitializer(this.props.opponent) ? Scenario.youVersusEnemy : Scenario.leftVersusRight} /></div>, true)
-                }
+        private stop = () => {
+            this.cancel();
+            this.setState({ matchCount: null });
+        };
+
+        private runSlice = () => {
+            this.timer = null;
+            const tournament = this.tournament;
+            const start = Date.now();
+            try {
+                while (tournament.advance(TournamentRunner.ticksPerAdvance) && Date.now() - start < TournamentRunner.sliceTime) {}
+            } catch (error) {
+                this.stop();
+                this.setState({ error });
+                return;
+            }
+
+            if (tournament.finished) {
+                const results = [tournament.getResult()].concat(this.state.results);
+                TournamentManager.saveResults(results);
+                this.tournament = null;
+                this.setState({ results, resultIndex: 0, matchCount: null });
+            } else {
+                this.setState({ completedMatches: tournament.completedMatchCount });
+                this.timer = window.setTimeout(this.runSlice, 0);
+            }
+        };
+
+        private clearResults = () => {
+            TournamentManager.saveResults([]);
+            this.setState({ results: [], resultIndex: 0 });
         };
 
+        public componentDidMount() {
+            BotLibrary.addListener(this.handleLibraryChange);
+        }
+
+        public componentWillUnmount() {
+            BotLibrary.removeListener(this.handleLibraryChange);
+            this.cancel();
+        }
+
         public render() {
+            const running = (this.tournament !== null);
+            const result = this.state.results[this.state.resultIndex];
             return <>
+                <p>Robots:</p>
+                <ul>
+                    {getTournamentCandidates().map(c => <li key={c.key}>
+                        <label><input type="checkbox" checked={!this.state.excluded[c.key]} disabled={running} onChange={() => this.toggle(c.key)} /> {c.name}</label>
+                    </li>)}
+                </ul>
+                <div>
+                    <label>Seeds per pairing: <input ref={this.inputSeedsPerPairing} type="number" min={1} defaultValue="4" /></label>
+                    <label>Time limit (seconds): <input ref={this.inputTimeLimit} type="number" min={1} defaultValue={defaultRules.timeLimit.toString()} /></label>
+                </div>
+                <div>
+                    <MapSelect map={this.state.map} onChange={(map) => this.setState({ map })} disabled={running} />
+                    <RulesSelect rules={this.state.rules} onChange={(rules) => this.setState({ rules })} disabled={running} />
+                </div>
                 {
-                    isBotInitializer(this.props.opponent)
-                    ? null
-                    : <>
-                        <p>Code for left robot:</p>
-                        <CodeEditor ref={this.codeEditorLeft} codeFile={this.props.opponent} />
-                        <p>Code for right robot:</p>
-                    </>
+                    running
+                    ? <p>Running match {this.state.completedMatches + 1} of {this.state.matchCount}... <button onClick={this.stop}>Cancel</button></p>
+                    : <button onClick={this.start}>Run tournament</button>
                 }
-                <CodeEditor ref={this.codeEditorRight} codeFile={this.props.codeFile} />
-                <button onClick={this.runSimulation}>Run simulation</button>
                 {this.state.error ? <p className="error">{this.state.error.toString()}</p> : null}
+                {
+                    result
+                    ? <>
+                        <p>
+                            Results: <select value={this.state.resultIndex} onChange={(event) => this.setState({ resultIndex: parseInt(event.target.value, 10) })}>
+                                {this.state.results.map((r, index) => <option key={index} value={index}>{new Date(r.date).toLocaleString()} ({r.matches.length} matches{r.mapName ? `, ${r.mapName}` : ""})</option>)}
+                            </select>
+                            <button onClick={this.clearResults}>Clear results</button>
+                        </p>
+                        <TournamentResultView result={result} />
+                    </>
+                    : null
+                }
             </>;
         }
     }
 
-    class MessageBox extends React.Component<{title: string, body: React.ReactFragment, closed: () => void, important: boolean}> {
+    class MessageBox extends React.Component<{title: string, body: React.ReactFragment, closed: () => void, important: boolean, hidden?: () => void}> {
         private static readonly messageBoxRoot = document.getElementById("messageBoxRoot");
 
-        public static show(title: string, body: React.ReactFragment, important: boolean = false) {
+        /** Shows a message box (replacing any other); hidden is called once it's gone, whether closed or replaced */
+        public static show(title: string, body: React.ReactFragment, important: boolean = false, hidden?: () => void) {
             ReactDOM.unmountComponentAtNode(MessageBox.messageBoxRoot);
-            ReactDOM.render(<MessageBox title={title} body={body} closed={MessageBox.hide} important={important}/>, MessageBox.messageBoxRoot);
+            ReactDOM.render(<MessageBox title={title} body={body} closed={MessageBox.hide} important={important} hidden={hidden}/>, MessageBox.messageBoxRoot);
         }
 
         public static hide() {
             ReactDOM.unmountComponentAtNode(MessageBox.messageBoxRoot);
         }
 
+        public componentWillUnmount() {
+            if (this.props.hidden) {
+                this.props.hidden();
+            }
+        }
+
         public render() {
             return <>
                 <div className="dimmer" onClick={this.props.important ? () => {} : this.props.closed}></div>
@@ -939,8 +2277,15 @@ namespace Battle {
     }
 
     class OptionChallenge extends OptionBase {
-        constructor (title: string, public opponent: BotInitializer, public blurb: React.ReactFragment, public codeFile: CodeFile = CodeFile.main) {
-            super(title);
+        public opponent: BotInitializer;
+        public map: ArenaMap;
+        public rules: SimulationRules;
+
+        constructor (public challenge: ChallengeDefinition, public blurb: React.ReactFragment, public slot: BotSlot = BotSlot.main) {
+            super(challenge.title);
+            this.opponent = getChallengeOpponent(challenge);
+            this.map = getChallengeMap(challenge);
+            this.rules = getChallengeRules(challenge);
         }
     }
 
@@ -950,18 +2295,28 @@ namespace Battle {
         }
     }
 
+    class OptionTournament extends OptionBase {
+        constructor () {
+            super("Tournament");
+        }
+    }
+
     function isOptionInformation(o: OptionBase): o is OptionInformation {
         return "content" in o;
     }
 
     function isOptionChallenge(o: OptionBase): o is OptionChallenge {
-        return "opponent" in o;
+        return "challenge" in o;
     }
 
     function isOptionArena(o: OptionBase): o is OptionArena {
         return o.title === "Arena";
     }
 
+    function isOptionTournament(o: OptionBase): o is OptionTournament {
+        return o.title === "Tournament";
+    }
+
     function toClassName(classes: string[]): string {
         return classes.join(" ");
     }
@@ -984,12 +2339,94 @@ function think(self, environment) {${body}}
 `;
     }
 
+    class ShareLink extends React.Component<{ bot: SharedBot }, { copied: boolean }> {
+        private input = React.createRef<HTMLInputElement>();
+
+        constructor(props) {
+            super(props);
+            this.state = { copied: false };
+        }
+
+        private copy = () => {
+            this.input.current.select();
+            document.execCommand("copy");
+            this.setState({ copied: true });
+        };
+
+        public render() {
+            return <>
+                <p>Anyone who opens this link can import "{this.props.bot.name}" or battle against it in The Arena (the robot's code is stored in the link itself):</p>
+                <input ref={this.input} className="shareLink" readOnly={true} value={createShareLink(window.location.href, this.props.bot)} onFocus={(event) => event.target.select()} />
+                <button onClick={this.copy}>{this.state.copied ? "Copied" : "Copy"}</button>
+            </>;
+        }
+    }
+
     class ColiseumRoot extends React.Component<{ options: OptionBase[] }, { index: number }> {
         constructor(props) {
             super(props);
             this.state = { index: 0 };
         }
 
+        /** Offers to import (or battle) a robot from a shared link */
+        private handleSharedBot = () => {
+            const data = getSharedBotData(window.location.hash);
+            if (data === null) {
+                return;
+            }
+
+            // Remove the robot from the address (so that reloading doesn't ask again)
+            window.history.replaceState(null, "", window.location.pathname + window.location.search);
+
+            let bot: SharedBot;
+            try {
+                bot = decodeSharedBot(data);
+            } catch (error) {
+                MessageBox.show("Shared robot", <p className="error">{error.toString()}</p>);
+                return;
+            }
+
+            const importBot = () => {
+                BotLibrary.import(bot);
+                MessageBox.hide();
+            };
+
+            const battleBot = () => {
+                BotLibrary.openShared(BotSlot.left, bot);
+                this.setState({ index: this.props.options.findIndex(isOptionArena) });
+                MessageBox.hide();
+            };
+
+            MessageBox.show("Shared robot", <>
+                <p>Someone shared a robot named "{bot.name}" with you:</p>
+                <pre className="sharedCode">{bot.code}</pre>
+                <button onClick={importBot}>Import into library</button>
+                <button onClick={battleBot}>Battle it in The Arena</button>
+            </>);
+        };
+
+        private handleProgressChanged = () => {
+            this.forceUpdate();
+        };
+
+        /** Challenges unlock in sequence: each one is available once the previous challenge has been completed */
+        private isLocked(option: OptionBase): boolean {
+            const challenges = this.props.options.filter(isOptionChallenge);
+            const index = challenges.indexOf(option as OptionChallenge);
+            return index > 0 && !ChallengeProgress.isCompleted(challenges[index - 1].challenge.id);
+        }
+
+        public componentDidMount() {
+            window.addEventListener("hashchange", this.handleSharedBot);
+            ChallengeProgress.addListener(this.handleProgressChanged);
+            this.handleSharedBot();
+        }
+
+        public componentWillUnmount() {
+            window.removeEventListener("hashchange", this.handleSharedBot);
+            ChallengeProgress.removeListener(this.handleProgressChanged);
+        }
+
         public render() {
             let rightBody: React.ReactFragment = null;
             const selected = this.props.options[this.state.index];
@@ -998,12 +2435,19 @@ function think(self, environment) {${body}}
             } else if (isOptionChallenge(selected)) {
                 rightBody = <>
                     {selected.blurb}
-                    <ColiseumEditor codeFile={selected.codeFile} opponent={selected.opponent} />
+                    <p><strong>Goal:</strong> {describeChallenge(selected.challenge)}{ChallengeProgress.isCompleted(selected.challenge.id) ? " (completed)" : ""}</p>
+                    <ColiseumEditor slot={selected.slot} opponent={selected.opponent} map={selected.map} rules={selected.rules} challenge={selected.challenge} />
                 </>;
             } else if (isOptionArena(selected)) {
                 rightBody = <>
-                    <p>In The Arena, you can paste in code for both robots, to test your creations against each other or against code posted online by other players.</p>
-                    <ColiseumEditor codeFile={CodeFile.right} opponent={CodeFile.left} />
+                    <p>In The Arena, you can pick any two robots from your library, to test your creations against each other. Use "Share" to create a link to one of your robots; other players can open the link to import your robot or battle against it here. Pick a map to add obstacles, or open your own map file (JSON, with a "name", "obstacles", and "spawnPoints").</p>
+                    <ColiseumEditor slot={BotSlot.right} opponent={BotSlot.left} />
+                    <ReplayImporter />
+                </>;
+            } else if (isOptionTournament(selected)) {
+                rightBody = <>
+                    <p>Tournaments pit robots against each other in every possible pairing (over several seeds), running at full speed. Robots are ranked using <a href="https://en.wikipedia.org/wiki/Elo_rating_system" target="_blank">Elo ratings</a>.</p>
+                    <TournamentRunner />
                 </>;
             }
 
@@ -1015,8 +2459,11 @@ function think(self, environment) {${body}}
                         if (i === this.state.index) {
                             classNames.push("selected");
                         }
-                        return <button className={toClassName(classNames)} onClick={() => this.setState({ index: i})}>{
-                            isOptionChallenge(o) ? `Challenge: ${o.title}` : o.title
+                        const locked = this.isLocked(o);
+                        return <button className={toClassName(classNames)} onClick={() => this.setState({ index: i})} disabled={locked} title={locked ? "Complete the previous challenge to unlock this one" : null}>{
+                            isOptionChallenge(o)
+                            ? `Challenge: ${o.title}${ChallengeProgress.isCompleted(o.challenge.id) ? " \u2713" : ""}`
+                            : o.title
                         }</button>;
                     })}
                 </div>
@@ -1028,9 +2475,128 @@ function think(self, environment) {${body}}
         }
     }
 
+    /**
+     * Errors ignored when type-checking TypeScript robots: Monaco checks every open editor as part of one program, so
+     * robots in different editors would otherwise clash over global declarations (such as "think")
+     */
+    const ignoredDiagnosticCodes = [
+        2300,   // Duplicate identifier
+        2393,   // Duplicate function implementation
+        2451,   // Cannot redeclare block-scoped variable
+    ];
+
+    /** Returns the editor language (for suggestions and error checking) for a robot's language */
+    function getEditorLanguage(language: BotLanguage): string {
+        return (language === "typescript") ? "typescript" : "javascript";
+    }
+
+    /** Problem found in a robot's code by Monaco's TypeScript worker */
+    interface Diagnostic {
+        /** Kind of problem (see diagnosticCategoryError) */
+        category: number;
+        code: number;
+
+        /** Offset of the problem in the code */
+        start: number;
+
+        /** Description of the problem (or a chain of descriptions, starting with the most general) */
+        messageText: string | { messageText: string };
+    }
+
+    /** Category of diagnostics that are errors (as opposed to warnings, suggestions, and messages) */
+    const diagnosticCategoryError = 1;
+
+    /** Describes an error found by Monaco's TypeScript worker, e.g. "';' expected. (line 3)" */
+    function describeDiagnostic(model: monaco.editor.ITextModel, diagnostic: Diagnostic): string {
+        const message = (typeof(diagnostic.messageText) === "string") ? diagnostic.messageText : diagnostic.messageText.messageText;
+        return `${message} (line ${model.getPositionAt(diagnostic.start).lineNumber})`;
+    }
+
+    /**
+     * Checks a robot's code for syntax errors (and type errors, for TypeScript) using Monaco's TypeScript worker,
+     * returning a description of each error
+     */
+    async function getCompileErrors(model: monaco.editor.ITextModel, language: BotLanguage): Promise<string[]> {
+        const typescript = monaco.languages.typescript;
+        const getWorker = await ((language === "typescript") ? typescript.getTypeScriptWorker() : typescript.getJavaScriptWorker());
+        const worker = await getWorker(model.uri);
+        const uri = model.uri.toString();
+        let diagnostics: Diagnostic[] = await worker.getSyntacticDiagnostics(uri);
+        if (language === "typescript") {
+            diagnostics = diagnostics.concat(await worker.getSemanticDiagnostics(uri));
+        }
+
+        return diagnostics
+            .filter(d => d.category === diagnosticCategoryError && ignoredDiagnosticCodes.indexOf(d.code) < 0)
+            .map(d => describeDiagnostic(model, d));
+    }
+
+    let languagesConfigured = false;
+
+    /** Sets up Monaco's JavaScript and TypeScript support (once): robot type declarations, and compiling down to ES5 */
+    function configureLanguages() {
+        if (languagesConfigured) {
+            return;
+        }
+        languagesConfigured = true;
+
+        const { javascriptDefaults, typescriptDefaults, ScriptTarget } = monaco.languages.typescript;
+        javascriptDefaults.addExtraLib(coliseumDTS, "coliseum.d.ts");
+        javascriptDefaults.setCompilerOptions({ allowNonTsExtensions: true, allowJs: true, target: ScriptTarget.ES5, sourceMap: true });
+
+        typescriptDefaults.addExtraLib(coliseumDTS, "coliseum.d.ts");
+        typescriptDefaults.setCompilerOptions({ allowNonTsExtensions: true, target: ScriptTarget.ES5, sourceMap: true });
+        typescriptDefaults.setDiagnosticsOptions({ noSemanticValidation: false, noSyntaxValidation: false, diagnosticCodesToIgnore: ignoredDiagnosticCodes });
+    }
+
+    /**
+     * Compiles a robot's code to ES5 if needed (using Monaco's TypeScript worker, so that the TypeScript compiler isn't
+     * bundled), throwing a BotCompileError if the code has syntax errors (or type errors, for TypeScript)
+     */
+    async function compileBot(code: string, language: BotLanguage): Promise<CompiledBot> {
+        if (language === "javascript") {
+            return { code, mappings: null };
+        }
+
+        if (!monacoShim.loaded) {
+            throw new BotCompileError("The code editor (which compiles robot code) is still loading; please try again in a moment");
+        }
+
+        configureLanguages();
+        const model = monaco.editor.createModel(code, getEditorLanguage(language));
+        try {
+            const typescript = monaco.languages.typescript;
+            const getWorker = await ((language === "typescript") ? typescript.getTypeScriptWorker() : typescript.getJavaScriptWorker());
+            const worker = await getWorker(model.uri);
+            const uri = model.uri.toString();
+
+            const errors = await getCompileErrors(model, language);
+            if (errors.length > 0) {
+                throw new BotCompileError(`${errors[0]}${(errors.length > 1) ? ` (and ${errors.length - 1} more error(s))` : ""}`);
+            }
+
+            const output = await worker.getEmitOutput(uri);
+            const outputFiles: { name: string, text: string }[] = output.outputFiles;
+            const compiled = outputFiles.find(f => f.name.endsWith(".js"));
+            const sourceMap = outputFiles.find(f => f.name.endsWith(".js.map"));
+            if (!compiled) {
+                throw new BotCompileError("Robot code could not be compiled");
+            }
+
+            // Drop the trailing source map comment (the map is used directly)
+            return {
+                code: compiled.text.replace(/\/\/# sourceMappingURL=.*\s*$/, ""),
+                mappings: sourceMap ? JSON.parse(sourceMap.text).mappings : null,
+            };
+        } finally {
+            model.dispose();
+        }
+    }
+
     function attachCodeEditor(root: HTMLElement, code: string, language:string = "javascript"): Promise<monaco.editor.IStandaloneCodeEditor> {
         return new Promise((resolve, reject) => {
             monacoShim.then(() => {
+                configureLanguages();
                 const editor = monaco.editor.create(root, {
                     value: code,
                     theme: "vs-dark",
@@ -1039,9 +2605,6 @@ function think(self, environment) {${body}}
                     minimap: { enabled: false },
                 });
 
-                monaco.languages.typescript.javascriptDefaults
-                    .addExtraLib(coliseumDTS, "coliseum.d.ts");
-
                 resolve(editor);
             });
         });
@@ -1082,27 +2645,47 @@ function think(self, environment) {${body}}
                 <li><strong>"self.shootDirection = Math.PI / 2;"</strong> causes the robot to aim straight up</li>
                 <li><strong>"self.shoot = true;"</strong> causes the robot to try and shoot (in the direction of shootDirection)</li>
                 <li><strong>"environment.enemy.x"</strong> is the enemy robot's position along the horizontal (x) axis</li>
+                <li><strong>"environment.enemies"</strong> lists every enemy robot, nearest first (useful in free-for-all battles in The Arena)</li>
+                <li><strong>"self.weapon = "missile";"</strong> switches weapons (choose from "shot", "missile", "mine", and "spread"; see "environment.weapons" for their cooldowns, damage, and speeds, and check "type" on enemy projectiles to see what's coming)</li>
+                <li><strong>"self.energy"</strong> matters when energy rules are on (in The Arena or tournaments): moving and shooting use energy, and robots without enough energy can't move or shoot (see "environment.energy" and each weapon's "energyCost")</li>
+                <li><strong>"environment.powerUps"</strong> lists power-ups waiting to be collected when power-ups are turned on (repair, rapid fire, shield, and speed); touch one to collect it, and check "self.effects" to see which are in effect</li>
+                <li><strong>"self.scanDirection = self.shootDirection;"</strong> points your robot's scan cone when sensors are turned on; robots then only detect what's nearby or inside the cone (see "environment.sensors"), so "environment.enemy" may be null</li>
+                <li><strong>"self.health"</strong> and <strong>"environment.enemy.canShoot"</strong> tell you how much damage your robot can take and whether the enemy is ready to fire (see also "shootCooldown")</li>
+                <li><strong>"environment.obstacles"</strong> lists any obstacles on the map (circles and rectangles that block robots and projectiles)</li>
+                <li><strong>"console.log(self.x, self.y);"</strong> writes to the log shown below the simulation (along with the tick number), which is handy for debugging</li>
+                <li><strong>"debug.line(self.x, self.y, environment.enemy.x, environment.enemy.y);"</strong> draws a line over the battlefield in your robot's color (see also "debug.circle", "debug.point", and "debug.text"), e.g. to show where your robot is aiming</li>
             </ul>
+            <p>Robots are written in JavaScript (ES5) by default, but you can pick another language next to your robot's name: modern JavaScript (with arrow functions, "let", classes, etc.) or TypeScript. Robots in those languages are converted to ES5 before they run, and TypeScript robots are type-checked (e.g. using the "RobotState" and "Environment" types) first.</p>
             <p>Note: the code editor provides inline code suggestions that describe the available properties on these objects, but by clicking the following link, you can also <a href="#" onClick={(e) => { e.preventDefault(); MessageBox.show("Type declarations", <TypeDeclarations />); }}>view the full type delcarations</a>.</p>
             <p>Select the first challenge from the list on the left to get started.</p>
         </>),
-        new OptionChallenge("Sitting Duck", BehaviorSittingDuck, <>
+        new OptionChallenge(getChallenge("sitting-duck"), <>
             <p>In this challenge, your opponent (the left robot) is a helpless sitting duck. All you need to do is program your robot (on the right) to aim and shoot.</p>
             <p>The starter code just spins and shoots constantly (by adding to "self.shootDirection" while "self.shoot" is true). This could be improved by aiming in the direction of "environment.enemy.x" and "environment.enemy.y" (see the following link for information on <a href="https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Math" target="_blank">JavaScript's built-in math/geometry functions</a>).</p>
-        </>, CodeFile.tutorial1),
-        new OptionChallenge("Moving Duck", BehaviorMovingDuck, <>
+        </>, BotSlot.tutorial1),
+        new OptionChallenge(getChallenge("moving-duck"), <>
             <p>This time, your opponent is still helpless, but at least it moves.</p>
             <p>The sample code has been updated to aim at the enemy using <a href="https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Math/atan2" target="_blank">Math.atan2(y, x)</a>.</p>
-        </>, CodeFile.tutorial2),
-        new OptionChallenge("Turret", BehaviorTurret, <>
+        </>, BotSlot.tutorial2),
+        new OptionChallenge(getChallenge("turret"), <>
             <p>You're in the big leagues now! This enemy fights back.</p>
             <p>The sample code aims and shoots. It's probably a good idea to add some movement.</p>
-        </>, CodeFile.tutorial3),
-        new OptionChallenge("Mobile Turret", BehaviorMovingTurret, <>
+        </>, BotSlot.tutorial3),
+        new OptionChallenge(getChallenge("mobile-turret"), <>
             <p>This is a real enemy that moves and attacks. Good luck!</p>
         </>),
+        new OptionChallenge(getChallenge("sharpshooter"), <>
+            <p>The mobile turret is back, but this time the arena has pillars and energy rules are on, so your robot can't move and shoot all the time (watch "self.energy"). Winning isn't enough: your robot needs to finish the fight without taking too much damage.</p>
+        </>),
+        new OptionChallenge(getChallenge("blitz"), <>
+            <p>The moving duck is hiding in the bunkers. Find it and destroy it, fast.</p>
+        </>),
+        new OptionChallenge(getChallenge("pacifist"), <>
+            <p>No shooting allowed! Use the wall to stay out of the turret's line of fire until time runs out.</p>
+        </>),
         new OptionArena(),
-        new OptionChallenge("Final Boss", BehaviorBoss, <>
+        new OptionTournament(),
+        new OptionChallenge(getChallenge("final-boss"), <>
             <p>You don't stand a chance...</p>
         </>),
     ];
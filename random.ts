@@ -0,0 +1,38 @@
+// Seedable pseudorandom number generation (so that matches can be reproduced exactly)
+
+/** Largest seed value (seeds are unsigned 32-bit integers) */
+export const maxSeed = 0xffffffff;
+
+/** Creates a pseudorandom number generator (Mulberry32) that returns numbers in [0, 1), like Math.random */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+}
+
+/** Creates a new (unpredictable) seed */
+export function createSeed(): number {
+    return Math.floor(Math.random() * (maxSeed + 1));
+}
+
+/** Derives an independent seed (e.g. for each robot) from a match seed */
+export function deriveSeed(seed: number, index: number): number {
+    return (seed + Math.imul(index, 0x9e3779b9)) >>> 0;
+}
+
+/** Parses a seed entered by the user (or returns null if the text is not a valid seed) */
+export function parseSeed(text: string): number | null {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) {
+        const seed = parseInt(trimmed, 10);
+        if (seed <= maxSeed) {
+            return seed;
+        }
+    }
+    return null;
+}
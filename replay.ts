@@ -0,0 +1,209 @@
+import { ArenaMap } from "./arena-map";
+import { PowerUpType, WeaponType } from "./coliseum-interface";
+import { isPowerUp, isProjectile, Simulation, SimulationResult, SimulationRules } from "./simulation";
+
+// Match recording (one frame per tick) and the JSON replay file format
+
+/** Version of the replay file format (incremented whenever the format changes incompatibly) */
+export const replayVersion = 4;
+
+export interface BotFrame {
+    x: number;
+    y: number;
+    radius: number;
+    moveDirection: number;
+    shootDirection: number;
+    scanDirection: number;
+    move: boolean;
+    health: number;
+    energy: number;
+
+    /** Power-ups currently in effect */
+    effects: PowerUpType[];
+
+    /** True once the robot has been destroyed */
+    dead: boolean;
+}
+
+export interface ProjectileFrame {
+    x: number;
+    y: number;
+    radius: number;
+    direction: number;
+    speed: number;
+    damage: number;
+
+    /** Type of weapon that fired the projectile */
+    type: WeaponType;
+
+    /** Index of the robot that fired the projectile */
+    source: number;
+}
+
+export interface PowerUpFrame {
+    x: number;
+    y: number;
+    radius: number;
+    type: PowerUpType;
+}
+
+export interface ReplayFrame {
+    tick: number;
+    bots: BotFrame[];
+    projectiles: ProjectileFrame[];
+
+    /** Power-ups on the battlefield */
+    powerUps: PowerUpFrame[];
+}
+
+export interface Replay {
+    version: number;
+    seed: number;
+
+    /** Display names for the robots (in the same order as each frame's robots) */
+    labels: string[];
+    map: ArenaMap;
+    rules: SimulationRules;
+    ticksPerSecond: number;
+
+    /** Number of ticks before the robots start fighting */
+    startTicks: number;
+
+    /** Outcome of the match (or null if the recording ended before the match was decided) */
+    result: SimulationResult | null;
+    frames: ReplayFrame[];
+}
+
+export function captureFrame(simulation: Simulation): ReplayFrame {
+    return {
+        tick: simulation.tick,
+        bots: simulation.bots.map<BotFrame>(b => ({
+            x: b.x,
+            y: b.y,
+            radius: b.radius,
+            moveDirection: b.moveDirection,
+            shootDirection: b.shootDirection,
+            scanDirection: b.scanDirection,
+            move: b.move,
+            health: b.health,
+            energy: b.energy,
+            effects: b.getEffectStates().map(e => e.type),
+            dead: simulation.entities.indexOf(b) < 0,
+        })),
+        projectiles: simulation.entities
+            .filter(isProjectile)
+            .map<ProjectileFrame>(p => ({
+                x: p.x,
+                y: p.y,
+                radius: p.radius,
+                direction: p.moveDirection,
+                speed: p.speed,
+                damage: p.damage,
+                type: p.type,
+                source: simulation.bots.findIndex(b => b === p.source),
+            })),
+        powerUps: simulation.entities
+            .filter(isPowerUp)
+            .map<PowerUpFrame>(p => ({
+                x: p.x,
+                y: p.y,
+                radius: p.radius,
+                type: p.type,
+            })),
+    };
+}
+
+/** Returns a frame that's the given fraction (0 to 1) of the way from one frame to the next (for smooth animation) */
+export function interpolateFrames(previous: ReplayFrame, next: ReplayFrame, fraction: number): ReplayFrame {
+    const mix = (a: number, b: number) => a + (b - a) * fraction;
+    const mixAngle = (a: number, b: number) => a + Math.atan2(Math.sin(b - a), Math.cos(b - a)) * fraction;
+    return {
+        ...next,
+        bots: next.bots.map((b, index) => {
+            const p = previous.bots[index];
+            return (p && !p.dead) ? {
+                ...b,
+                x: mix(p.x, b.x),
+                y: mix(p.y, b.y),
+                shootDirection: mixAngle(p.shootDirection, b.shootDirection),
+                scanDirection: mixAngle(p.scanDirection, b.scanDirection),
+            } : b;
+        }),
+
+        // Projectiles can't be matched up between frames, but they move in (nearly) straight lines, so move them back along
+        // their paths instead
+        projectiles: next.projectiles.map(p => ({
+            ...p,
+            x: p.x - (1 - fraction) * p.speed * Math.cos(p.direction),
+            y: p.y - (1 - fraction) * p.speed * Math.sin(p.direction),
+        })),
+    };
+}
+
+/** Records a frame for the initial state and then for each call to record (i.e. after each update) */
+export class ReplayRecorder {
+    private frames: ReplayFrame[] = [];
+
+    constructor(private simulation: Simulation, private labels: string[]) {
+        this.record();
+    }
+
+    public get latestFrame(): ReplayFrame {
+        return this.frames[this.frames.length - 1];
+    }
+
+    /** Frame recorded just before the latest one (or the latest one, if only one frame has been recorded) */
+    public get previousFrame(): ReplayFrame {
+        return this.frames[Math.max(0, this.frames.length - 2)];
+    }
+
+    public record() {
+        this.frames.push(captureFrame(this.simulation));
+    }
+
+    public getReplay(): Replay {
+        return {
+            version: replayVersion,
+            seed: this.simulation.seed,
+            labels: this.labels,
+            map: this.simulation.map,
+            rules: this.simulation.rules,
+            ticksPerSecond: Simulation.ticksPerSecond,
+            startTicks: Simulation.startTimerPeriod,
+            result: this.simulation.result,
+            frames: this.frames,
+        };
+    }
+}
+
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+/** Parses (and validates) a replay file, throwing an Error if the file isn't a supported replay */
+export function parseReplay(text: string): Replay {
+    let replay: Replay;
+    try {
+        replay = JSON.parse(text);
+    } catch (error) {
+        throw new Error("Replay file is not valid JSON");
+    }
+
+    if (!replay || typeof(replay) !== "object" || typeof(replay.version) !== "number") {
+        throw new Error("File is not a replay");
+    }
+
+    if (replay.version !== replayVersion) {
+        throw new Error(`Unsupported replay version: ${replay.version} (expected ${replayVersion})`);
+    }
+
+    if (!Array.isArray(replay.labels) || !Array.isArray(replay.frames) || replay.frames.length <= 0) {
+        throw new Error("Replay is missing frames");
+    }
+
+    if (!replay.map || !Array.isArray(replay.map.obstacles)) {
+        throw new Error("Replay is missing its map");
+    }
+
+    return replay;
+}
@@ -0,0 +1,358 @@
+import { Interpreter } from "./js-interpreter/interpreter.js";
+import { CompiledBot, describeLocation } from "./bot-compiler";
+import { Environment, RobotState } from "./coliseum-interface";
+import { createRandom } from "./random";
+import { BotForfeitError, BotInitializer } from "./simulation";
+
+// Hosting of user-supplied robot code in a sandboxed interpreter
+
+const createNewInterpreter = (code: string) => new Interpreter(code);
+type Interpreter = ReturnType<typeof createNewInterpreter>;
+
+/** What happens to a robot whose "think" function exceeds its step budget */
+export enum BudgetOverrunRule {
+    skipTurn,   // The robot does nothing (no moving or shooting) for that tick
+    forfeit,    // The robot is destroyed
+}
+
+/** Limits on the number of interpreter steps robot code may use */
+export interface StepBudget {
+    /** Steps allowed for running the code initially (i.e. declaring "think" and any variables) */
+    initSteps: number;
+
+    /** Steps allowed for each call to "think" */
+    thinkSteps: number;
+
+    overrunRule: BudgetOverrunRule;
+}
+
+export const defaultStepBudget: StepBudget = {
+    initSteps: 500000,
+    thinkSteps: 50000,
+    overrunRule: BudgetOverrunRule.skipTurn,
+};
+
+export class StepBudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, StepBudgetExceededError.prototype);
+    }
+}
+
+export enum LogLevel {
+    log,
+    warn,
+}
+
+export interface LogMessage {
+    level: LogLevel;
+    text: string;
+}
+
+/** Converts a value (from robot code) to text for display */
+function formatValue(value: any): string {
+    if (typeof(value) === "string") {
+        return value;
+    }
+
+    try {
+        const json = JSON.stringify(value);
+        if (json !== undefined) {
+            return json;
+        }
+    } catch (e) {}
+    return String(value);
+}
+
+/** Collects output from robot code's "console" (limiting the output, so that logging every tick can't flood the page) */
+export class BotConsole {
+    /** Maximum number of messages kept between calls to takeMessages (any others are counted, but dropped) */
+    public static readonly maxMessages = 20;
+
+    /** Maximum length of a message (longer messages are truncated) */
+    public static readonly maxLength = 500;
+
+    private messages: LogMessage[] = [];
+    private droppedCount = 0;
+
+    public write(level: LogLevel, values: any[]) {
+        if (this.messages.length >= BotConsole.maxMessages) {
+            this.droppedCount++;
+            return;
+        }
+
+        let text = values.map(formatValue).join(" ");
+        if (text.length > BotConsole.maxLength) {
+            text = `${text.substr(0, BotConsole.maxLength)}...`;
+        }
+        this.messages.push({ level, text });
+    }
+
+    /** Returns (and clears) any messages written since the last call */
+    public takeMessages(): LogMessage[] {
+        const messages = this.messages;
+        if (this.droppedCount > 0) {
+            messages.push({ level: LogLevel.warn, text: `(${this.droppedCount} more message(s) dropped)` });
+        }
+
+        this.messages = [];
+        this.droppedCount = 0;
+        return messages;
+    }
+}
+
+export interface DebugLine {
+    type: "line";
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface DebugCircle {
+    type: "circle";
+    x: number;
+    y: number;
+    radius: number;
+}
+
+export interface DebugPoint {
+    type: "point";
+    x: number;
+    y: number;
+}
+
+export interface DebugText {
+    type: "text";
+    text: string;
+    x: number;
+    y: number;
+}
+
+/** Shape drawn (in battlefield coordinates) by robot code using "debug" */
+export type DebugShape = DebugLine | DebugCircle | DebugPoint | DebugText;
+
+/** Collects shapes drawn by robot code (limiting the number of shapes per tick) */
+export class BotDebugDrawing {
+    public static readonly maxShapes = 100;
+
+    private shapes: DebugShape[] = [];
+
+    public add(shape: DebugShape) {
+        if (this.shapes.length < BotDebugDrawing.maxShapes) {
+            this.shapes.push(shape);
+        }
+    }
+
+    /** Returns (and clears) any shapes drawn since the last call */
+    public takeShapes(): DebugShape[] {
+        const shapes = this.shapes;
+        this.shapes = [];
+        return shapes;
+    }
+}
+
+function isFiniteNumber(value: any): boolean {
+    return typeof(value) === "number" && isFinite(value);
+}
+
+/** Properties of the robot's state that are read back after "think" (everything else is read-only) */
+const controlPropertyNames: (keyof RobotState)[] = ["shootDirection", "moveDirection", "move", "shoot", "weapon", "scanDirection"];
+
+/**
+ * Creates an interpreter whose Math.random is seeded (so that robots behave reproducibly), whose console writes to
+ * botConsole, and whose "debug" object draws to botDrawing.
+ */
+function createSeededInterpreter(code: string, seed: number, botConsole: BotConsole, botDrawing: BotDebugDrawing): Interpreter {
+    const random = createRandom(seed);
+    return new Interpreter(code, (interpreter: Interpreter, globalObject) => {
+        const math = interpreter.getProperty(globalObject, "Math");
+        interpreter.setProperty(math, "random", interpreter.createNativeFunction(() => random()));
+
+        const consoleObject = interpreter.nativeToPseudo({});
+        const createWriter = (level: LogLevel) => interpreter.createNativeFunction(function () {
+            botConsole.write(level, Array.prototype.map.call(arguments, (value: any) => interpreter.pseudoToNative(value)));
+        });
+        interpreter.setProperty(consoleObject, "log", createWriter(LogLevel.log));
+        interpreter.setProperty(consoleObject, "warn", createWriter(LogLevel.warn));
+        interpreter.setProperty(globalObject, "console", consoleObject);
+
+        // Shapes with invalid coordinates are ignored
+        const debugObject = interpreter.nativeToPseudo({});
+        interpreter.setProperty(debugObject, "line", interpreter.createNativeFunction((x1: any, y1: any, x2: any, y2: any) => {
+            if ([x1, y1, x2, y2].every(isFiniteNumber)) {
+                botDrawing.add({ type: "line", x1, y1, x2, y2 });
+            }
+        }));
+        interpreter.setProperty(debugObject, "circle", interpreter.createNativeFunction((x: any, y: any, radius: any) => {
+            if ([x, y, radius].every(isFiniteNumber)) {
+                botDrawing.add({ type: "circle", x, y, radius });
+            }
+        }));
+        interpreter.setProperty(debugObject, "point", interpreter.createNativeFunction((x: any, y: any) => {
+            if ([x, y].every(isFiniteNumber)) {
+                botDrawing.add({ type: "point", x, y });
+            }
+        }));
+        interpreter.setProperty(debugObject, "text", interpreter.createNativeFunction((text: any, x: any, y: any) => {
+            if ([x, y].every(isFiniteNumber)) {
+                botDrawing.add({ type: "text", text: formatValue(interpreter.pseudoToNative(text)).substr(0, BotConsole.maxLength), x, y });
+            }
+        }));
+        interpreter.setProperty(globalObject, "debug", debugObject);
+    });
+}
+
+/** Robot code loaded into an interpreter, along with what's needed to locate errors in the robot's original code */
+export interface BotProgram {
+    vm: Interpreter;
+    bot: CompiledBot;
+
+    /** Syntax tree nodes from the robot's own code (as opposed to code added by the Coliseum) */
+    nodes: Set<object>;
+}
+
+/** Collects every node in a syntax tree */
+function collectNodes(node: any, nodes: Set<object>) {
+    nodes.add(node);
+    for (const key in node) {
+        const value = node[key];
+        const children = Array.isArray(value) ? value : [value];
+        for (const child of children) {
+            if (child && typeof(child) === "object" && typeof(child.type) === "string" && !nodes.has(child)) {
+                collectNodes(child, nodes);
+            }
+        }
+    }
+}
+
+/** Adds the location of the node (in the robot's original code) to an error thrown while executing the node */
+function addLocation(error: any, program: BotProgram, node: any): any {
+    const location = (node && program.nodes.has(node) && typeof(node.start) === "number") ? describeLocation(program.bot, node.start) : null;
+    if (!location) {
+        return error;
+    } else if (error instanceof Error) {
+        error.message = `${error.message} (${location})`;
+        return error;
+    } else {
+        return new Error(`${error} (${location})`);
+    }
+}
+
+/**
+ * Steps the interpreter until the code completes; returns false if the code didn't complete within the given number of
+ * steps. Errors thrown by the code are rethrown with their location added.
+ */
+function runWithBudget(program: BotProgram, maxSteps: number): boolean {
+    const vm = program.vm;
+    let steps = 0;
+    let node: any = null;
+    try {
+        for (;;) {
+            // Remember the node being executed (the interpreter unwinds its stack before throwing)
+            const stack = vm.stateStack;
+            node = (stack.length > 0) ? stack[stack.length - 1].node : null;
+            if (!vm.step()) {
+                return true;
+            }
+
+            if (++steps > maxSteps) {
+                return false;
+            }
+        }
+    } catch (error) {
+        throw addLocation(error, program, node);
+    }
+}
+
+/** Abandons any partially executed code (leaving only the root program, so that more code can be appended) */
+function abortExecution(vm: Interpreter) {
+    vm.stateStack.length = 1;
+}
+
+/**
+ * Pushes a call to an interpreter function onto the interpreter's stack (so that the next steps run the function). This
+ * mirrors how the interpreter calls functions itself (e.g. for setTimeout): the call expression's callee and arguments
+ * are already evaluated, so no code needs to be parsed.
+ */
+function pushCall(vm: Interpreter, func: object, args: object[]) {
+    vm.stateStack.push({
+        node: { type: "CallExpression" },
+        scope: vm.global,
+        doneCallee_: 2,
+        func_: func,
+        funcThis_: vm.global,
+        doneArgs_: true,
+        arguments_: args,
+    });
+}
+
+/** Reads a property from an interpreter object, returning undefined for anything but primitives */
+function readPrimitive(vm: Interpreter, object: object, name: string): any {
+    const value = vm.getProperty(object, name);
+    return (value === null || typeof(value) !== "object") ? value : undefined;
+}
+
+/** Runs a robot's (compiled) code (throwing on errors, including exceeding the initialization step budget) */
+export function createBotInterpreter(bot: CompiledBot, seed: number, budget: StepBudget, botConsole: BotConsole = new BotConsole(), botDrawing: BotDebugDrawing = new BotDebugDrawing()): BotProgram {
+    const vm = createSeededInterpreter(bot.code, seed, botConsole, botDrawing);
+    const program: BotProgram = { vm, bot, nodes: new Set<object>() };
+    collectNodes(vm.ast, program.nodes);
+    if (!runWithBudget(program, budget.initSteps)) {
+        throw new StepBudgetExceededError(`Step budget exceeded: initialization did not finish within ${budget.initSteps} steps`);
+    }
+
+    return program;
+}
+
+/**
+ * Creates a robot that calls "think" in the given interpreter. Errors in the robot's code are thrown; exceeding the
+ * step budget either skips the robot's turn (and reports the error to reportOverrun) or forfeits the match.
+ */
+export function createScriptedBotInitializer(program: BotProgram, budget: StepBudget, reportOverrun: (error: StepBudgetExceededError) => void): BotInitializer {
+    const vm = program.vm;
+    return () => {
+        return (self: RobotState, environment: Environment) => {
+            const think = vm.getProperty(vm.global, "think");
+            if (!think || !vm.isa(think, vm.FUNCTION)) {
+                throw new Error("Robot code must declare a \"think\" function");
+            }
+
+            // Build the arguments directly as interpreter objects (and call "think" without parsing any code)
+            const state = vm.nativeToPseudo(self);
+            pushCall(vm, think, [state, vm.nativeToPseudo(environment)]);
+            if (!runWithBudget(program, budget.thinkSteps)) {
+                abortExecution(vm);
+
+                const message = `Step budget exceeded: think did not finish within ${budget.thinkSteps} steps`;
+                if (budget.overrunRule === BudgetOverrunRule.forfeit) {
+                    throw new BotForfeitError(`${message} (the robot forfeits)`);
+                }
+
+                self.move = false;
+                self.shoot = false;
+                reportOverrun(new StepBudgetExceededError(`${message} (the robot's turn was skipped)`));
+                return;
+            }
+
+            for (const name of controlPropertyNames) {
+                (self as any)[name] = readPrimitive(vm, state, name);
+            }
+        };
+    };
+}
+
+/** Creates a robot (for running headless, e.g. in tournaments) whose runtime errors and step budget overruns are quietly treated as forfeits or skipped turns */
+export function createHeadlessScriptedBot(bot: CompiledBot, seed: number, budget: StepBudget): BotInitializer {
+    const initializer = createScriptedBotInitializer(createBotInterpreter(bot, seed, budget), budget, () => {});
+    return () => {
+        const think = initializer();
+        return (self: RobotState, environment: Environment) => {
+            try {
+                think(self, environment);
+            } catch (error) {
+                throw (error instanceof BotForfeitError) ? error : new BotForfeitError(`${error}`);
+            }
+        };
+    };
+}
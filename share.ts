@@ -0,0 +1,189 @@
+// Sharing robots via links (the robot is compressed into the URL fragment, so no server is needed)
+
+import { BotLanguage, isBotLanguage } from "./bot-compiler";
+
+export interface SharedBot {
+    name: string;
+    code: string;
+
+    /** Language of the robot's code (plain JavaScript if omitted, as in links created before other languages were supported) */
+    language?: BotLanguage;
+}
+
+interface SharedBotPayload extends SharedBot {
+    version: number;
+}
+
+/** Version of the shared robot format (incremented whenever the format changes incompatibly) */
+const sharedBotVersion = 1;
+
+const fragmentPrefix = "#bot=";
+
+// LZW compression of bytes, using variable-width codes (up to 16 bits)
+const maxDictionarySize = 0x10000;
+
+/** Width (in bits) of the code written when the dictionary has the given number of entries */
+function getCodeWidth(dictionarySize: number): number {
+    let width = 8;
+    while ((1 << width) < dictionarySize) {
+        width++;
+    }
+    return width;
+}
+
+function compress(input: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    let buffer = 0;
+    let bufferBits = 0;
+    let codeCount = 0;
+    const write = (code: number) => {
+        const width = getCodeWidth(Math.min(256 + codeCount++, maxDictionarySize));
+        for (let i = 0; i < width; i++) {
+            buffer |= ((code >> i) & 1) << bufferBits++;
+            if (bufferBits === 8) {
+                output.push(buffer);
+                buffer = 0;
+                bufferBits = 0;
+            }
+        }
+    };
+
+    // Dictionary maps (prefix code, next byte) to a code
+    const dictionary: { [key: number]: number } = {};
+    let dictionarySize = 256;
+    let prefix = -1;
+    for (let i = 0; i < input.length; i++) {
+        const byte = input[i];
+        if (prefix < 0) {
+            prefix = byte;
+            continue;
+        }
+
+        const key = prefix * 256 + byte;
+        const code = dictionary[key];
+        if (code !== undefined) {
+            prefix = code;
+        } else {
+            write(prefix);
+            if (dictionarySize < maxDictionarySize) {
+                dictionary[key] = dictionarySize++;
+            }
+            prefix = byte;
+        }
+    }
+
+    if (prefix >= 0) {
+        write(prefix);
+    }
+
+    if (bufferBits > 0) {
+        output.push(buffer);
+    }
+
+    return new Uint8Array(output);
+}
+
+function decompress(input: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    const totalBits = input.length * 8;
+    let position = 0;
+    const read = (width: number) => {
+        let code = 0;
+        for (let i = 0; i < width; i++, position++) {
+            code |= ((input[position >> 3] >> (position & 7)) & 1) << i;
+        }
+        return code;
+    };
+
+    const entries: number[][] = [];
+    for (let i = 0; i < 256; i++) {
+        entries.push([i]);
+    }
+
+    let previous: number[] = null;
+    for (let codeCount = 0; ; codeCount++) {
+        // Any remaining bits (fewer than a full code) are padding
+        const width = getCodeWidth(Math.min(256 + codeCount, maxDictionarySize));
+        if (totalBits - position < width) {
+            break;
+        }
+
+        const code = read(width);
+        let entry: number[];
+        if (code < entries.length) {
+            entry = entries[code];
+        } else if (code === entries.length && previous) {
+            entry = previous.concat([previous[0]]);
+        } else {
+            throw new Error("Compressed data is corrupt");
+        }
+
+        for (const byte of entry) {
+            output.push(byte);
+        }
+
+        if (previous && entries.length < maxDictionarySize) {
+            entries.push(previous.concat([entry[0]]));
+        }
+        previous = entry;
+    }
+
+    return new Uint8Array(output);
+}
+
+// URL-safe Base64 (without padding)
+function encodeBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export function encodeSharedBot(bot: SharedBot): string {
+    const payload: SharedBotPayload = { version: sharedBotVersion, name: bot.name, code: bot.code, language: bot.language };
+    return encodeBase64Url(compress(new TextEncoder().encode(JSON.stringify(payload))));
+}
+
+/** Decodes (and validates) a shared robot, throwing an Error if the data is invalid */
+export function decodeSharedBot(data: string): SharedBot {
+    let payload: SharedBotPayload;
+    try {
+        payload = JSON.parse(new TextDecoder().decode(decompress(decodeBase64Url(data))));
+    } catch (error) {
+        throw new Error("Shared robot link is invalid or incomplete");
+    }
+
+    if (!payload || typeof(payload) !== "object" || payload.version !== sharedBotVersion) {
+        throw new Error("Shared robot link is not supported by this version of the Cyber Coliseum");
+    }
+
+    if (typeof(payload.name) !== "string" || typeof(payload.code) !== "string") {
+        throw new Error("Shared robot link is missing the robot's name or code");
+    }
+
+    if (payload.language !== undefined && !isBotLanguage(payload.language)) {
+        throw new Error(`Shared robot link uses an unsupported language: "${payload.language}"`);
+    }
+
+    return { name: payload.name, code: payload.code, language: payload.language };
+}
+
+/** Creates a link to the given page that includes the robot */
+export function createShareLink(pageUrl: string, bot: SharedBot): string {
+    return pageUrl.replace(/#.*$/, "") + fragmentPrefix + encodeSharedBot(bot);
+}
+
+/** Returns the encoded robot from a URL fragment (e.g. location.hash), or null if the fragment doesn't contain a robot */
+export function getSharedBotData(fragment: string): string | null {
+    return (fragment.indexOf(fragmentPrefix) === 0) ? fragment.substr(fragmentPrefix.length) : null;
+}
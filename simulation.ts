@@ -0,0 +1,1113 @@
+import { ArenaMap, emptyMap } from "./arena-map";
+import { Bounds, EffectState, EnemyState, EnergyRules, Environment, Obstacle, PowerUpState, PowerUpType, ProjectileState, RobotState, SensorRules, Weapons, WeaponType } from "./coliseum-interface";
+import { createRandom, deriveSeed } from "./random";
+import { SpatialGrid } from "./spatial-grid";
+
+// Headless battle simulation (no React, DOM, or timers; advanced one tick at a time via Simulation.update)
+
+// TODO: Could be inferred from "collided" handler
+export enum CollisionClass {
+    solid,      // Collides with solids (moving them apart), and also with massless
+    massless,   // Collides with solids, but doesn't move anything
+}
+
+export interface Position {
+    x: number;
+    y: number;
+}
+
+export interface Circle extends Position {
+    radius: number;
+}
+
+interface Collidable extends Circle {
+    collisionClass: CollisionClass;
+
+    /** Called on collisionClass.solid when colliding with collisionClass.massless */
+    collided(other: Collidable): void;
+}
+
+interface Entity extends Collidable {
+    dead: boolean;
+
+    update(): void;
+}
+
+function isEntity(a: object): a is Entity {
+    return "dead" in a;
+}
+
+interface Scriptable extends Entity {
+    /** Decides what to do next (possibly asynchronously) */
+    think(getEnvironment: () => Environment): void | Promise<void>;
+
+    /** Carries out the decision made in think, returning any new entities */
+    act(): Entity[] | null;
+}
+
+function isScriptable(a: object): a is Scriptable {
+    return "act" in a;
+}
+
+export function getDistance(a: Position, b: Position) {
+    return Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+}
+
+export class MovingEntity implements Entity, Scriptable {
+    public dead = false;
+
+    constructor(
+        public collisionClass: CollisionClass,
+        public x: number,
+        public y: number,
+        public radius: number,
+        public speed: number,
+        public moveDirection: number,
+        public shootDirection: number,
+        public move: boolean) {
+    }
+
+    protected collidedInternal(other: Collidable) {}
+
+    public collided(other: Collidable) {
+        if (isEntity(other)) {
+            other.dead = true;
+            this.collidedInternal(other);
+        }
+    }
+
+    public update() {
+        if (this.move) {
+            this.x += this.speed * Math.cos(this.moveDirection);
+            this.y += this.speed * Math.sin(this.moveDirection);
+        }
+    }
+
+    public think(getEnvironment: () => Environment): void | Promise<void> {}
+
+    public act(): Entity[] | null {
+        return null;
+    }
+}
+
+export class Projectile extends MovingEntity {
+    /** Number of ticks before the projectile disappears */
+    public remainingTicks: number;
+
+    /** A lifetime of zero means the projectile lasts until it hits something */
+    constructor(
+        public type: WeaponType,
+        public source: Entity,
+        x: number,
+        y: number,
+        radius: number,
+        moveDirection: number,
+        speed: number,
+        public damage: number,
+        lifetime: number = 0
+    ) {
+        super(CollisionClass.massless, x, y, radius, speed, moveDirection, moveDirection, true);
+        this.remainingTicks = (lifetime > 0) ? lifetime : Infinity;
+    }
+
+    /** Returns true if the projectile damages the given entity on contact */
+    public canHit(other: Collidable): boolean {
+        return true;
+    }
+
+    public update() {
+        super.update();
+        if (--this.remainingTicks <= 0) {
+            this.dead = true;
+        }
+    }
+}
+
+export function isProjectile(a: object): a is Projectile {
+    return "damage" in a;
+}
+
+export class Shot extends Projectile {
+    public static readonly shotRadius = 0.15;
+    public static readonly shotSpeed = 0.5;
+    public static readonly shotDamage = 10;
+
+    constructor(source: Entity, x: number, y: number, moveDirection: number) {
+        super("shot", source, x, y, Shot.shotRadius, moveDirection, Shot.shotSpeed, Shot.shotDamage);
+    }
+}
+
+/** Properties of each weapon (and the projectiles it fires) */
+export const weapons: Weapons = {
+    shot: { cooldown: 10, damage: Shot.shotDamage, speed: Shot.shotSpeed, radius: Shot.shotRadius, lifetime: 0, energyCost: 10 },
+    missile: { cooldown: 45, damage: 25, speed: 0.25, radius: 0.25, lifetime: 240, energyCost: 30 },
+    mine: { cooldown: 60, damage: 30, speed: 0, radius: 0.3, lifetime: 900, energyCost: 25 },
+    spread: { cooldown: 20, damage: 6, speed: 0.45, radius: 0.1, lifetime: 0, energyCost: 20 },
+};
+
+function isWeaponType(a: any): a is WeaponType {
+    return typeof(a) === "string" && weapons.hasOwnProperty(a);
+}
+
+/** Creates a projectile of the given type, fired from the edge of the source */
+function createProjectile(type: WeaponType, source: Circle & Entity, direction: number): Projectile {
+    const weapon = weapons[type];
+    const x = source.x + (source.radius + weapon.radius) * 1.001 * Math.cos(direction);
+    const y = source.y + (source.radius + weapon.radius) * 1.001 * Math.sin(direction);
+    switch (type) {
+        case "shot": return new Shot(source, x, y, direction);
+        case "missile": return new Missile(source, x, y, direction);
+        case "mine": return new Mine(source, x, y);
+        default: return new Projectile(type, source, x, y, weapon.radius, direction, weapon.speed, weapon.damage, weapon.lifetime);
+    }
+}
+
+/** Projectile that steers toward a target (see Simulation.steerMissiles) */
+export class Missile extends Projectile {
+    /** Maximum change in direction per tick (in radians) */
+    public static readonly turnRate = 0.06;
+
+    constructor(source: Entity, x: number, y: number, moveDirection: number) {
+        super("missile", source, x, y, weapons.missile.radius, moveDirection, weapons.missile.speed, weapons.missile.damage, weapons.missile.lifetime);
+    }
+
+    public steer(target: Position) {
+        const desiredDirection = Math.atan2(target.y - this.y, target.x - this.x);
+        const difference = desiredDirection - this.moveDirection;
+        const turn = Math.atan2(Math.sin(difference), Math.cos(difference));
+        this.moveDirection += Math.max(-Missile.turnRate, Math.min(Missile.turnRate, turn));
+        this.shootDirection = this.moveDirection;
+    }
+}
+
+function isMissile(a: object): a is Missile {
+    return "steer" in a;
+}
+
+/** Stationary projectile (which can't harm the robot that dropped it) */
+export class Mine extends Projectile {
+    constructor(source: Entity, x: number, y: number) {
+        super("mine", source, x, y, weapons.mine.radius, 0, weapons.mine.speed, weapons.mine.damage, weapons.mine.lifetime);
+        this.move = false;
+    }
+
+    public canHit(other: Collidable): boolean {
+        return other !== this.source;
+    }
+}
+
+/** Number of ticks each power-up's effect lasts once collected */
+export const powerUpDurations: { [type in PowerUpType]: number } = {
+    repair: 60,
+    rapidFire: 300,
+    shield: 150,
+    speed: 300,
+};
+
+export const powerUpTypes = Object.keys(powerUpDurations) as PowerUpType[];
+
+/** Stationary pickup; solids that touch it collect it (see Ship.collidedInternal) */
+export class PowerUp extends MovingEntity {
+    public static readonly powerUpRadius = 0.4;
+
+    /** Number of ticks a power-up stays on the battlefield if not collected (15 seconds) */
+    public static readonly lifetime = 450;
+
+    public remainingTicks = PowerUp.lifetime;
+
+    constructor(public type: PowerUpType, x: number, y: number) {
+        super(CollisionClass.massless, x, y, PowerUp.powerUpRadius, 0, 0, 0, false);
+    }
+
+    public get effectDuration(): number {
+        return powerUpDurations[this.type];
+    }
+
+    public update() {
+        if (--this.remainingTicks <= 0) {
+            this.dead = true;
+        }
+    }
+}
+
+export function isPowerUp(a: object): a is PowerUp {
+    return "effectDuration" in a;
+}
+
+export const energyRules: EnergyRules = {
+    regeneration: 0.4,
+    moveCost: 0.2,
+};
+
+export const sensorRules: SensorRules = {
+    radarRadius: 5,
+    scanRange: 30,
+    scanAngle: Math.PI / 4,
+};
+
+export class Ship extends MovingEntity {
+    public static readonly maxHealth = 100;
+    public static readonly maxEnergy = 100;
+    public static readonly baseSpeed = 0.2;
+
+    /** Effects of power-ups: health restored per tick (repair), cooldown multiplier (rapid fire), and speed multiplier */
+    public static readonly repairRate = 0.5;
+    public static readonly rapidFireFactor = 0.5;
+    public static readonly speedFactor = 1.5;
+
+    /** Spread shots fire this many projectiles, this far apart (in radians) */
+    public static readonly spreadCount = 3;
+    public static readonly spreadAngle = 0.2;
+
+    private shootTimer = 0;
+    public health = Ship.maxHealth;
+    public energy = Ship.maxEnergy;
+
+    /** True if moving and shooting use energy (see energyRules) */
+    public usesEnergy = false;
+
+    /** Number of ticks remaining for each power-up currently in effect */
+    public effects: { [type in PowerUpType]?: number } = {};
+
+    protected shoot = false;
+    public weapon: WeaponType = "shot";
+
+    /** Direction of the scan cone (see sensorRules) */
+    public scanDirection = 0;
+
+    /** Statistics for the match: projectiles fired, projectiles that hit another ship, and damage dealt and taken */
+    public shotsFired = 0;
+    public hits = 0;
+    public damageDealt = 0;
+    public damageTaken = 0;
+
+    /** Total distance moved (including being pushed around), updated by recordMovement */
+    public distanceTravelled = 0;
+    private lastPosition: Position;
+
+    constructor(x: number, y: number, moveDirection: number) {
+        super(CollisionClass.solid, x, y, 1, Ship.baseSpeed, moveDirection, moveDirection, false);
+        this.lastPosition = { x, y };
+    }
+
+    /** Number of ticks until the ship can shoot again (zero if it can shoot now) */
+    public get shootCooldown(): number {
+        return Math.max(0, this.shootTimer);
+    }
+
+    /** True if the ship can shoot its current weapon now */
+    public get canShoot(): boolean {
+        return this.shootTimer <= 0 && this.hasEnergy(weapons[this.weapon].energyCost);
+    }
+
+    /** True if the ship has enough energy to move this tick */
+    public get canMove(): boolean {
+        return this.hasEnergy(energyRules.moveCost);
+    }
+
+    private hasEnergy(cost: number): boolean {
+        return !this.usesEnergy || this.energy >= cost;
+    }
+
+    private useEnergy(cost: number) {
+        if (this.usesEnergy) {
+            this.energy -= cost;
+        }
+    }
+
+    public hasEffect(type: PowerUpType): boolean {
+        return this.effects[type] > 0;
+    }
+
+    public getEffectStates(): EffectState[] {
+        return powerUpTypes
+            .filter(type => this.hasEffect(type))
+            .map<EffectState>(type => ({ type, remainingTicks: this.effects[type] }));
+    }
+
+    private updateEffects() {
+        if (this.hasEffect("repair")) {
+            this.health = Math.min(Ship.maxHealth, this.health + Ship.repairRate);
+        }
+
+        this.speed = Ship.baseSpeed * (this.hasEffect("speed") ? Ship.speedFactor : 1);
+
+        for (const type of powerUpTypes) {
+            if (this.hasEffect(type)) {
+                this.effects[type]--;
+            }
+        }
+    }
+
+    public update() {
+        if (this.usesEnergy) {
+            this.energy = Math.min(Ship.maxEnergy, this.energy + energyRules.regeneration);
+        }
+
+        this.updateEffects();
+
+        if (this.move && this.canMove) {
+            this.useEnergy(energyRules.moveCost);
+            super.update();
+        }
+    }
+
+    public act(): Entity[] | null {
+        let result = null;
+        if (this.shoot && this.canShoot) {
+            this.shootTimer = Math.ceil(weapons[this.weapon].cooldown * (this.hasEffect("rapidFire") ? Ship.rapidFireFactor : 1));
+            this.useEnergy(weapons[this.weapon].energyCost);
+
+            if (this.weapon === "spread") {
+                result = [];
+                for (let i = 0; i < Ship.spreadCount; i++) {
+                    const direction = this.shootDirection + (i - (Ship.spreadCount - 1) / 2) * Ship.spreadAngle;
+                    result.push(createProjectile(this.weapon, this, direction));
+                }
+            } else {
+                result = [createProjectile(this.weapon, this, this.shootDirection)];
+            }
+            this.shotsFired += result.length;
+        } else if (this.shootTimer > 0) {
+            this.shootTimer--;
+        }
+        return result;
+    }
+
+    /** Returns true if the ship's sensors detect the given position (see sensorRules) */
+    public canSense(p: Position): boolean {
+        const distance = getDistance(this, p);
+        if (distance <= sensorRules.radarRadius) {
+            return true;
+        } else if (distance > sensorRules.scanRange) {
+            return false;
+        }
+
+        const difference = Math.atan2(p.y - this.y, p.x - this.x) - this.scanDirection;
+        return Math.abs(Math.atan2(Math.sin(difference), Math.cos(difference))) <= sensorRules.scanAngle / 2;
+    }
+
+    /** Returns false if the ship's sensors can't detect any position within the given circle (see canSense) */
+    public mightSense(c: Circle): boolean {
+        const distance = getDistance(this, c);
+        if (distance <= sensorRules.radarRadius + c.radius) {
+            return true;
+        } else if (distance - c.radius > sensorRules.scanRange) {
+            return false;
+        }
+
+        // Seen from the ship, the circle covers the directions within this angle of the direction to its center
+        const spread = Math.asin(c.radius / distance);
+        const difference = Math.atan2(c.y - this.y, c.x - this.x) - this.scanDirection;
+        return Math.abs(Math.atan2(Math.sin(difference), Math.cos(difference))) <= sensorRules.scanAngle / 2 + spread;
+    }
+
+    /** Adds the distance moved since the last call to distanceTravelled */
+    public recordMovement() {
+        this.distanceTravelled += getDistance(this, this.lastPosition);
+        this.lastPosition = { x: this.x, y: this.y };
+    }
+
+    protected collidedInternal(other: Collidable) {
+        if (isProjectile(other)) {
+            const source = other.source;
+            if (isShip(source)) {
+                source.hits++;
+            }
+
+            if (!this.hasEffect("shield")) {
+                // Only count damage that the ship actually had left to lose
+                const damage = Math.min(other.damage, Math.max(0, this.health));
+                this.damageTaken += damage;
+                if (isShip(source)) {
+                    source.damageDealt += damage;
+                }
+
+                this.health -= other.damage;
+                this.dead = (this.health <= 0);
+                // TODO: Explosion?
+            }
+        } else if (isPowerUp(other)) {
+            this.effects[other.type] = other.effectDuration;
+        }
+    }
+}
+
+function isShip(a: object): a is Ship {
+    return "health" in a;
+}
+
+// Bots
+/** Updates the robot's state (returning a promise if the decision is made asynchronously) */
+export type BotThinkHandler = (self: RobotState, environment: Environment) => void | Promise<void>;
+export type BotInitializer = () => BotThinkHandler;
+
+/** Thrown by a think handler to forfeit the match (the robot is destroyed) */
+export class BotForfeitError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, BotForfeitError.prototype);
+    }
+}
+
+export class Bot extends Ship {
+    private thinkHandler: BotThinkHandler;
+
+    /** True if the robot was destroyed due to forfeiting */
+    public forfeited = false;
+
+    constructor (x: number, y: number, public initialize: BotInitializer) {
+        super(x, y, 0);
+
+        this.thinkHandler = initialize();
+    }
+
+    private handleThinkError(error: any, state: RobotState) {
+        if (error instanceof BotForfeitError) {
+            this.forfeited = true;
+            this.dead = true;
+            state.move = false;
+            state.shoot = false;
+        } else {
+            throw error;
+        }
+    }
+
+    private applyState(state: RobotState) {
+        this.move = state.move;
+        this.shoot = state.shoot;
+        this.shootDirection = state.shootDirection;
+        this.moveDirection = state.moveDirection;
+
+        // Unknown weapons (and invalid scan directions) are ignored
+        if (isWeaponType(state.weapon)) {
+            this.weapon = state.weapon;
+        }
+
+        if (typeof(state.scanDirection) === "number" && isFinite(state.scanDirection)) {
+            this.scanDirection = state.scanDirection;
+        }
+    }
+
+    public think(getEnvironment: () => Environment): void | Promise<void> {
+        const state: RobotState = {
+            x: this.x,
+            y: this.y,
+            radius: this.radius,
+            health: this.health,
+            maxHealth: Ship.maxHealth,
+            shootCooldown: this.shootCooldown,
+            canShoot: this.canShoot,
+            energy: this.energy,
+            maxEnergy: Ship.maxEnergy,
+            effects: this.getEffectStates(),
+            shootDirection: this.shootDirection,
+            moveDirection: this.moveDirection,
+            move: this.move,
+            shoot: this.shoot,
+            weapon: this.weapon,
+            scanDirection: this.scanDirection,
+        };
+
+        let pending: void | Promise<void>;
+        try {
+            pending = this.thinkHandler(state, getEnvironment());
+        } catch (error) {
+            this.handleThinkError(error, state);
+        }
+
+        if (pending) {
+            return pending.then(
+                () => this.applyState(state),
+                (error) => {
+                    this.handleThinkError(error, state);
+                    this.applyState(state);
+                });
+        }
+
+        this.applyState(state);
+    }
+}
+
+export function isBot(a: MovingEntity): a is Bot {
+    return "initialize" in a;
+}
+
+/** How far a circle overlaps an obstacle, and the direction in which to move the circle to separate them */
+interface ObstacleOverlap {
+    distance: number;
+    direction: number;
+}
+
+/** Optional rules for a match */
+export interface SimulationRules {
+    /** Moving and shooting use energy (see energyRules) */
+    energy: boolean;
+
+    /** Power-ups appear on the battlefield periodically */
+    powerUps: boolean;
+
+    /** Robots only detect what's within range of their sensors (see sensorRules) */
+    sensors: boolean;
+
+    /** Maximum match length (in seconds, after the start timer); if time runs out, surviving robots are ranked by health */
+    timeLimit: number;
+}
+
+export const defaultRules: SimulationRules = {
+    energy: false,
+    powerUps: false,
+    sensors: false,
+    timeLimit: 120,
+};
+
+/** Settings that affect how fast a match is simulated (but never how it plays out) */
+export interface SimulationOptions {
+    /**
+     * Nearby projectiles and power-ups are found using a grid (see EntityGroups) once there are more than this many
+     * entities (with fewer, checking every entity is faster)
+     */
+    broadPhaseThreshold: number;
+}
+
+export const defaultSimulationOptions: SimulationOptions = {
+    broadPhaseThreshold: 48,
+};
+
+/** Statistics for a single robot over the course of a match */
+export interface BotStatistics {
+    /** Number of projectiles fired (spread shots count each projectile) */
+    shotsFired: number;
+
+    /** Number of projectiles that hit another robot (including hits blocked by a shield) */
+    hits: number;
+    damageDealt: number;
+    damageTaken: number;
+    distanceTravelled: number;
+
+    /** Number of ticks the robot survived (after the start timer) */
+    survivalTicks: number;
+}
+
+export interface SimulationResult {
+    /** Index of the last robot standing, or the healthiest survivor if time ran out (or null if the match was a tie) */
+    winner: number | null;
+
+    /** True if the match ended because the time limit was reached */
+    timedOut: boolean;
+
+    /** Tick on which each robot was eliminated (or null if the robot survived) */
+    eliminationTicks: (number | null)[];
+
+    /**
+     * Place of each robot (starting at 1 for the winner; robots eliminated on the same tick share a place, as do
+     * survivors with the same health when time runs out)
+     */
+    ranks: number[];
+
+    /** Statistics for each robot (in the same order as the robots) */
+    statistics: BotStatistics[];
+}
+
+/** Entities by kind (gathered once per tick, so that each robot's environment doesn't require going through every entity) */
+interface EntityGroups {
+    ships: Ship[];
+    projectiles: Projectile[];
+    powerUps: PowerUp[];
+
+    /**
+     * Massless entities (projectiles and power-ups) by position, for finding those near a point (or null if there are too
+     * few entities for a grid to be worthwhile; see SimulationOptions)
+     */
+    grid: SpatialGrid<MovingEntity> | null;
+}
+
+export class Simulation {
+    public static readonly ticksPerSecond = 30;
+    public static readonly maxDistance = 10;
+    public static readonly minBots = 2;
+    public static readonly maxBots = 8;
+    public static readonly startTimerPeriod = Simulation.ticksPerSecond;
+    public static readonly endTimerPeriod = 2 * Simulation.ticksPerSecond;
+    public static readonly environmentBounds: Bounds = {
+        xMin: -Simulation.maxDistance,
+        xMax: Simulation.maxDistance,
+        yMin: -Simulation.maxDistance,
+        yMax: Simulation.maxDistance,
+    };
+
+    /** Power-ups (when enabled) appear this often, as long as there aren't already too many on the battlefield */
+    public static readonly powerUpPeriod = 10 * Simulation.ticksPerSecond;
+    public static readonly maxPowerUps = 2;
+
+    public static readonly gridCellSize = 2.5;
+
+    public entities: MovingEntity[];
+
+    /** All robots in the match, including destroyed ones (in the order they were supplied) */
+    public readonly bots: Bot[];
+
+    /** Tick on which each robot was eliminated (or null if the robot is still alive) */
+    public readonly eliminationTicks: (number | null)[];
+
+    /** Number of updates so far (including those during the start timer) */
+    public tick = 0;
+    public startTimer = Simulation.startTimerPeriod;
+    public endTimer = Simulation.endTimerPeriod;
+
+    /** Outcome of the match (or null if the match is still in progress) */
+    public result: SimulationResult | null = null;
+
+    /** Random number generator for power-ups (independent of robots' generators, so robots can't affect it) */
+    private powerUpRandom: () => number;
+
+    /**
+     * Creates a match between the given robots on the given map (for two robots on a map without spawn points, the first
+     * is on the left and the second is on the right). Spawn positions are determined by the seed, so a given seed (and
+     * set of robots, map, and rules) always plays out the same way.
+     */
+    constructor(initializers: BotInitializer[], public readonly seed: number, public readonly map: ArenaMap = emptyMap, public readonly rules: SimulationRules = defaultRules, private readonly options: SimulationOptions = defaultSimulationOptions) {
+        if (initializers.length < Simulation.minBots || initializers.length > Simulation.maxBots) {
+            throw new Error(`Matches require between ${Simulation.minBots} and ${Simulation.maxBots} robots (not ${initializers.length})`);
+        }
+
+        const positions = Simulation.getSpawnPositions(initializers.length, map.spawnPoints, createRandom(seed));
+        this.bots = initializers.map((initializer, index) => new Bot(positions[index].x, positions[index].y, initializer));
+        this.bots.forEach(b => b.usesEnergy = rules.energy);
+        this.powerUpRandom = createRandom(deriveSeed(seed, Simulation.maxBots + 1));
+        this.eliminationTicks = this.bots.map(b => null);
+        this.entities = this.bots.slice();
+    }
+
+    /** Seed for a robot's own random number generator (given the robot's index) */
+    public static getBotSeed(seed: number, index: number): number {
+        return deriveSeed(seed, index + 1);
+    }
+
+    /**
+     * Returns the length of a finished match in ticks of combat (from the end of the start timer until the result was
+     * decided: the time limit, or the elimination that decided the match; excluding the end timer)
+     */
+    public static getMatchLength(result: SimulationResult, rules: SimulationRules): number {
+        if (result.timedOut) {
+            return rules.timeLimit * Simulation.ticksPerSecond;
+        }
+        return Math.max(...result.eliminationTicks.map(tick => (tick === null) ? 0 : tick)) - Simulation.startTimerPeriod;
+    }
+
+    /** Adds a random power-up at a random position (if a clear position is found) */
+    private spawnPowerUp() {
+        const random = this.powerUpRandom;
+        const type = powerUpTypes[Math.floor(powerUpTypes.length * random())];
+        const range = Simulation.maxDistance - 2;
+        for (let attempt = 0; attempt < 10; attempt++) {
+            const powerUp = new PowerUp(type, range * (2 * random() - 1), range * (2 * random() - 1));
+            const blocked = this.map.obstacles.some(o => Simulation.getObstacleOverlap(o, powerUp) !== null)
+                || this.entities.some(e => Simulation.getCollisionOverlap(e, powerUp) > 0);
+
+            if (!blocked) {
+                this.entities.push(powerUp);
+                return;
+            }
+        }
+    }
+
+    private static getSpawnPositions(count: number, spawnPoints: Position[], random: () => number): Position[] {
+        if (spawnPoints.length >= count) {
+            // Spread the robots evenly through the map's spawn points (starting from a random one)
+            const offset = Math.floor(spawnPoints.length * random());
+            const positions: Position[] = [];
+            for (let i = 0; i < count; i++) {
+                const p = spawnPoints[(offset + Math.floor(i * spawnPoints.length / count)) % spawnPoints.length];
+                positions.push({ x: p.x, y: p.y });
+            }
+            return positions;
+        }
+
+        if (count === 2) {
+            // One robot on each side
+            return [
+                { x: -10 * random(), y: 20 * random() - 10 },
+                { x: 10 * random(), y: 20 * random() - 10 },
+            ];
+        }
+
+        // Otherwise, space the robots evenly around a circle (with a random rotation and distance from the center)
+        const rotation = 2 * Math.PI * random();
+        const positions: Position[] = [];
+        for (let i = 0; i < count; i++) {
+            const angle = rotation + 2 * Math.PI * i / count;
+            const distance = Simulation.maxDistance * (0.6 + 0.3 * random());
+            positions.push({ x: distance * Math.cos(angle), y: distance * Math.sin(angle) });
+        }
+        return positions;
+    }
+
+    private static getCollisionOverlap(a: Collidable, b: Collidable): number {
+        const centerDistance = getDistance(a, b);
+        const overlapDistance = a.radius + b.radius - centerDistance;
+        if (overlapDistance > 0) {
+            return overlapDistance;
+        }
+        return 0;
+    }
+
+    private static getObstacleOverlap(obstacle: Obstacle, c: Circle): ObstacleOverlap | null {
+        if (obstacle.type === "circle") {
+            const overlapDistance = obstacle.radius + c.radius - getDistance(obstacle, c);
+            return (overlapDistance > 0) ? { distance: overlapDistance, direction: Math.atan2(c.y - obstacle.y, c.x - obstacle.x) } : null;
+        }
+
+        // Rectangle: find the point in the rectangle closest to the circle's center (relative to the rectangle's center)
+        const halfWidth = obstacle.width / 2;
+        const halfHeight = obstacle.height / 2;
+        const dx = c.x - obstacle.x;
+        const dy = c.y - obstacle.y;
+        const closestX = Math.max(-halfWidth, Math.min(halfWidth, dx));
+        const closestY = Math.max(-halfHeight, Math.min(halfHeight, dy));
+        if (closestX !== dx || closestY !== dy) {
+            const overlapDistance = c.radius - getDistance({ x: dx, y: dy }, { x: closestX, y: closestY });
+            return (overlapDistance > 0) ? { distance: overlapDistance, direction: Math.atan2(dy - closestY, dx - closestX) } : null;
+        }
+
+        // The center is inside the rectangle, so push the circle out through the nearest edge
+        const exits: ObstacleOverlap[] = [
+            { distance: halfWidth - dx, direction: 0 },
+            { distance: halfWidth + dx, direction: Math.PI },
+            { distance: halfHeight - dy, direction: Math.PI / 2 },
+            { distance: halfHeight + dy, direction: -Math.PI / 2 },
+        ];
+        const exit = exits.reduce((a, b) => (b.distance < a.distance) ? b : a);
+        return { distance: exit.distance + c.radius, direction: exit.direction };
+    }
+
+    private static enforceBoundsOnCoordinate(x: number): number {
+        return Math.max(-Simulation.maxDistance, Math.min(Simulation.maxDistance, x));
+    }
+
+    private groupEntities(): EntityGroups {
+        const groups: EntityGroups = { ships: [], projectiles: [], powerUps: [], grid: null };
+        for (const e of this.entities) {
+            if (isShip(e)) {
+                groups.ships.push(e);
+            } else if (isProjectile(e)) {
+                groups.projectiles.push(e);
+            } else if (isPowerUp(e)) {
+                groups.powerUps.push(e);
+            }
+        }
+
+        if (this.entities.length > this.options.broadPhaseThreshold) {
+            // The grid is built before anything moves, so queries allow for each entity's movement during the tick
+            const massless = this.entities.filter(e => e.collisionClass !== CollisionClass.solid);
+            const maxStep = massless.reduce((max, e) => e.move ? Math.max(max, e.speed) : max, 0);
+            groups.grid = new SpatialGrid(Simulation.environmentBounds, Simulation.gridCellSize, maxStep, massless);
+        }
+        return groups;
+    }
+
+    private getEnvironment(self: Entity, groups: EntityGroups): Environment {
+        // Under sensor rules, only include what the robot can detect (only checking what's near its sensors, given a grid)
+        const detects = (e: Entity) => !this.rules.sensors || !isShip(self) || self.canSense(e);
+        const sensed = (this.rules.sensors && isShip(self) && groups.grid) ? groups.grid.queryCells(cell => self.mightSense(cell)) : null;
+        const projectiles = sensed ? sensed.filter(isProjectile) : groups.projectiles;
+        const powerUps = sensed ? sensed.filter(isPowerUp) : groups.powerUps;
+        const enemies = groups.ships
+            .filter(e => e !== self && detects(e))
+            .sort((a, b) => getDistance(a, self) - getDistance(b, self));
+
+        return {
+            bounds: Simulation.environmentBounds,
+            projectileSpeed: Shot.shotSpeed,
+            projectileDamage: Shot.shotDamage,
+            weapons,
+            energy: this.rules.energy ? energyRules : null,
+            sensors: this.rules.sensors ? sensorRules : null,
+            enemy: enemies.length > 0 ? Simulation.getEnemyState(enemies[0]) : null,
+            enemies: enemies.map(Simulation.getEnemyState),
+            enemyProjectiles: projectiles
+                .filter(e => e.source !== self && detects(e))
+                .map<ProjectileState>(e => ({
+                    x: e.x,
+                    y: e.y,
+                    direction: e.moveDirection,
+                    speed: e.speed,
+                    type: e.type,
+                })),
+            obstacles: this.map.obstacles.map(o => ({ ...o })),
+            powerUps: powerUps
+                .filter(detects)
+                .sort((a, b) => getDistance(a, self) - getDistance(b, self))
+                .map<PowerUpState>(p => ({
+                    type: p.type,
+                    x: p.x,
+                    y: p.y,
+                    radius: p.radius,
+                    duration: p.effectDuration,
+                    remainingTicks: p.remainingTicks,
+                })),
+        };
+    }
+
+    private static getEnemyState(e: Ship): EnemyState {
+        let direction: number = null;
+        let speed = 0;
+
+        if (e.move && e.canMove) {
+            let nextX = Simulation.enforceBoundsOnCoordinate(e.x + e.speed * Math.cos(e.moveDirection));
+            let nextY = Simulation.enforceBoundsOnCoordinate(e.y + e.speed * Math.sin(e.moveDirection));
+            direction = Math.atan2(nextY - e.y, nextX - e.x);
+            speed = getDistance({ x: nextX, y: nextY }, e);
+        }
+
+        return {
+            x: e.x,
+            y: e.y,
+            radius: e.radius,
+            direction,
+            speed,
+            health: e.health,
+            maxHealth: Ship.maxHealth,
+            shootCooldown: e.shootCooldown,
+            canShoot: e.canShoot,
+            energy: e.energy,
+            maxEnergy: Ship.maxEnergy,
+            effects: e.getEffectStates(),
+        };
+    }
+
+    /** Steers each missile toward the nearest enemy of the robot that fired it */
+    private steerMissiles(groups: EntityGroups) {
+        for (const missile of groups.projectiles) {
+            if (isMissile(missile)) {
+                const targets = groups.ships.filter(e => e !== missile.source);
+                if (targets.length > 0) {
+                    missile.steer(targets.reduce((a, b) => (getDistance(b, missile) < getDistance(a, missile)) ? b : a));
+                }
+            }
+        }
+    }
+
+    private enforceBounds() {
+        for (const e of this.entities) {
+            if (isProjectile(e)) {
+                if (e.x < -Simulation.maxDistance || e.x > Simulation.maxDistance || e.y < -Simulation.maxDistance || e.y > Simulation.maxDistance) {
+                    e.dead = true;
+                }
+            } else {
+                e.x = Simulation.enforceBoundsOnCoordinate(e.x);
+                e.y = Simulation.enforceBoundsOnCoordinate(e.y);
+            }
+        }
+    }
+
+    private findAndResolveCollisions(groups: EntityGroups) {
+        const solids = this.entities.filter(e => e.collisionClass === CollisionClass.solid);
+
+        // Massless entities never move while collisions are being resolved, so (given a grid) each solid only checks the
+        // ones near it (there are few solids, so those are all checked)
+        const grid = groups.grid;
+        const maxRadius = grid ? this.entities.reduce((max, e) => (e.collisionClass === CollisionClass.solid) ? max : Math.max(max, e.radius), 0) : 0;
+        let getCandidates = (a: MovingEntity, start: number) => this.entities.filter((b, index) => index >= start && b !== a);
+        if (grid) {
+            // Robots (the only solids) come before every other entity, since entities are only ever appended, so this
+            // checks candidates in the same order as the entities (and the results don't depend on the grid)
+            getCandidates = (a, start) => solids.slice(start).filter(b => b !== a).concat(grid.query(a.x, a.y, a.radius + maxRadius));
+        }
+
+        // Loop through solids first
+        for (const a of solids) {
+            // Loop through all other entities (that could be touching) and check for collisions
+            let candidates = getCandidates(a, 0);
+            for (let i = 0; i < candidates.length; i++) {
+                const b = candidates[i];
+                const overlapDistance = Simulation.getCollisionOverlap(a, b);
+                if (overlapDistance > 0) {
+                    if (b.collisionClass === CollisionClass.solid) {
+                        // Collision with solid; resolve
+                        const directionAToB = Math.atan2(b.y - a.y, b.x - a.x);
+                        const dax = -overlapDistance / 2 * Math.cos(directionAToB) * 1.0001;
+                        const day = -overlapDistance / 2 * Math.sin(directionAToB) * 1.0001;
+                        a.x += dax;
+                        a.y += day;
+                        b.x -= dax;
+                        b.y -= day;
+
+                        if (grid) {
+                            // This solid moved, so look for candidates near its new position (among the remaining entities)
+                            candidates = getCandidates(a, this.entities.indexOf(b) + 1);
+                            i = -1;
+                        }
+                    } else if (!isProjectile(b) || b.canHit(a)) {
+                        // Collision with massless
+                        a.collided(b);
+                    }
+                }
+            }
+        }
+
+        // Obstacles never move, so solids are moved out of them entirely (and projectiles are stopped)
+        for (const e of grid ? solids : this.entities) {
+            for (const obstacle of this.map.obstacles) {
+                const overlap = Simulation.getObstacleOverlap(obstacle, e);
+                if (overlap) {
+                    if (e.collisionClass === CollisionClass.solid) {
+                        e.x += overlap.distance * Math.cos(overlap.direction) * 1.0001;
+                        e.y += overlap.distance * Math.sin(overlap.direction) * 1.0001;
+                    } else {
+                        e.dead = true;
+                    }
+                }
+            }
+        }
+
+        if (grid) {
+            // Stopping a massless entity is the same whichever obstacle does it, so only those near each obstacle are checked
+            for (const obstacle of this.map.obstacles) {
+                const halfWidth = ((obstacle.type === "circle") ? obstacle.radius : obstacle.width / 2) + maxRadius;
+                const halfHeight = ((obstacle.type === "circle") ? obstacle.radius : obstacle.height / 2) + maxRadius;
+                grid.queryBounds({ xMin: obstacle.x - halfWidth, xMax: obstacle.x + halfWidth, yMin: obstacle.y - halfHeight, yMax: obstacle.y + halfHeight })
+                    .filter(e => Simulation.getObstacleOverlap(obstacle, e) !== null)
+                    .forEach(e => e.dead = true);
+            }
+        }
+    }
+
+    /** Returns true once the match has been decided (further updates have no effect) */
+    public get finished(): boolean {
+        return this.result !== null;
+    }
+
+    /** Advances the simulation by a single tick (all robots must think synchronously; see updateAsync otherwise) */
+    public update() {
+        const steps = this.updateSteps();
+        for (let step = steps.next(); !step.done; step = steps.next()) {
+            if (step.value) {
+                throw new Error("A robot is thinking asynchronously; use updateAsync instead of update");
+            }
+        }
+    }
+
+    /** Advances the simulation by a single tick, waiting for any robots that think asynchronously */
+    public async updateAsync(): Promise<void> {
+        const steps = this.updateSteps();
+        for (let step = steps.next(); !step.done; step = steps.next()) {
+            if (step.value) {
+                await step.value;
+            }
+        }
+    }
+
+    /** Runs a single tick, yielding whenever an entity thinks asynchronously (so that its decision can be awaited) */
+    private *updateSteps(): IterableIterator<Promise<void>> {
+        if (this.finished) {
+            return;
+        }
+
+        this.tick++;
+
+        // Check to see if we've started
+        if (this.startTimer > 0) {
+            this.startTimer--;
+            return;
+        }
+
+        // Check to see if at least two robots are around
+        const bots = this.entities.filter(e => isBot(e)) as Bot[];
+        const inCombat = bots.length > 1;
+
+        // Entities are only added and removed after they've all been updated
+        const groups = this.groupEntities();
+        const groupedCount = this.entities.length;
+        this.steerMissiles(groups);
+
+        // Update entities (and add any new ones they create)
+        let newEntities = [];
+        for (const e of this.entities) {
+            const getEnvironmentForEntity = () => this.getEnvironment(e, groups);
+            e.update();
+
+            if (inCombat && isScriptable(e)) {
+                // Only robots that are thinking asynchronously need to be waited for
+                const thinking = e.think(getEnvironmentForEntity);
+                if (thinking) {
+                    yield thinking;
+                }
+
+                const result = e.act();
+                if (result) {
+                    newEntities = newEntities.concat(result);
+                }
+            }
+        }
+        this.entities = this.entities.concat(newEntities);
+
+        if (this.rules.powerUps && inCombat && (this.tick - Simulation.startTimerPeriod) % Simulation.powerUpPeriod === 0
+            && this.entities.filter(isPowerUp).length < Simulation.maxPowerUps) {
+            this.spawnPowerUp();
+        }
+
+        // New entities haven't moved yet, so they can go straight into the grid
+        if (groups.grid) {
+            this.entities.slice(groupedCount)
+                .filter(e => e.collisionClass !== CollisionClass.solid)
+                .forEach(e => groups.grid.add(e));
+        }
+
+        this.findAndResolveCollisions(groups);
+        this.enforceBounds();
+        bots.forEach(b => b.recordMovement());
+
+        this.entities = this.entities.filter(e => !e.dead);
+
+        // Record eliminations
+        this.bots.forEach((b, index) => {
+            if (b.dead && this.eliminationTicks[index] === null) {
+                this.eliminationTicks[index] = this.tick;
+            }
+        });
+
+        // Check for end
+        if (!inCombat) {
+            // Wait bit to declare a victor
+            if (this.endTimer-- <= 0) {
+                this.result = this.getResult(false);
+            }
+        } else if (this.tick - Simulation.startTimerPeriod >= this.rules.timeLimit * Simulation.ticksPerSecond) {
+            this.result = this.getResult(true);
+        }
+    }
+
+    /**
+     * Last robot standing wins (or, if time ran out, the surviving robot with the most health); everyone else is ranked
+     * by how long they survived (and then by health)
+     */
+    private getResult(timedOut: boolean): SimulationResult {
+        const eliminationTicks = this.eliminationTicks.slice();
+        const scores = this.bots.map((b, index) => ({
+            survivalTicks: (eliminationTicks[index] === null) ? Infinity : eliminationTicks[index],
+            health: (timedOut && eliminationTicks[index] === null) ? b.health : 0,
+        }));
+
+        const beats = (a: typeof scores[0], b: typeof scores[0]) => a.survivalTicks > b.survivalTicks || (a.survivalTicks === b.survivalTicks && a.health > b.health);
+        const ranks = scores.map(a => 1 + scores.filter(b => beats(b, a)).length);
+        const leaders = ranks
+            .map((rank, index) => (rank === 1) ? index : -1)
+            .filter(index => index >= 0);
+
+        return {
+            winner: (leaders.length === 1 && eliminationTicks[leaders[0]] === null) ? leaders[0] : null,
+            timedOut,
+            eliminationTicks,
+            ranks,
+            statistics: this.bots.map<BotStatistics>((b, index) => ({
+                shotsFired: b.shotsFired,
+                hits: b.hits,
+                damageDealt: b.damageDealt,
+                damageTaken: b.damageTaken,
+                distanceTravelled: b.distanceTravelled,
+                survivalTicks: ((eliminationTicks[index] === null) ? this.tick : eliminationTicks[index]) - Simulation.startTimerPeriod,
+            })),
+        };
+    }
+}
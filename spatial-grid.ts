@@ -0,0 +1,105 @@
+import { Bounds } from "./coliseum-interface";
+
+// Uniform grid for finding nearby objects without checking every object (a "broad phase" for collision detection and
+// sensor queries)
+
+export interface GridItem {
+    x: number;
+    y: number;
+}
+
+/** Circle covering a cell (and the slack around it) */
+export interface GridCell {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * Grid of square cells covering the given bounds, each listing the items whose centers were in that cell when they were
+ * added (items outside the bounds go in the nearest cell). Items may move up to the given slack distance after being
+ * added; queries are widened to allow for it.
+ */
+export class SpatialGrid<T extends GridItem> {
+    private items: T[] = [];
+
+    /** Index of the cell each item is in (in the same order as the items) */
+    private itemCells: number[] = [];
+    private cells: number[][];
+    private columns: number;
+    private rows: number;
+
+    /** Farthest any item was outside the bounds when it was added (such items are in the cells on the edges) */
+    private overflow = 0;
+
+    constructor(private bounds: Bounds, private cellSize: number, private slack: number, items: T[] = []) {
+        this.columns = Math.max(1, Math.ceil((bounds.xMax - bounds.xMin) / cellSize));
+        this.rows = Math.max(1, Math.ceil((bounds.yMax - bounds.yMin) / cellSize));
+        this.cells = [];
+        for (let i = 0; i < this.columns * this.rows; i++) {
+            this.cells.push([]);
+        }
+        items.forEach(item => this.add(item));
+    }
+
+    private getColumn(x: number): number {
+        return Math.max(0, Math.min(this.columns - 1, Math.floor((x - this.bounds.xMin) / this.cellSize)));
+    }
+
+    private getRow(y: number): number {
+        return Math.max(0, Math.min(this.rows - 1, Math.floor((y - this.bounds.yMin) / this.cellSize)));
+    }
+
+    public add(item: T) {
+        const cell = this.getRow(item.y) * this.columns + this.getColumn(item.x);
+        this.cells[cell].push(this.items.length);
+        this.itemCells.push(cell);
+        this.items.push(item);
+
+        const { xMin, xMax, yMin, yMax } = this.bounds;
+        const dx = Math.max(0, xMin - item.x, item.x - xMax);
+        const dy = Math.max(0, yMin - item.y, item.y - yMax);
+        this.overflow = Math.max(this.overflow, Math.sqrt(dx * dx + dy * dy));
+    }
+
+    /**
+     * Returns every item whose center is within the given box, along with some items that are a little farther away (so
+     * callers still need to check the actual positions); items are returned in the order they were added
+     */
+    public queryBounds(box: Bounds): T[] {
+        const indices: number[] = [];
+        const columnMax = this.getColumn(box.xMax + this.slack);
+        const rowMax = this.getRow(box.yMax + this.slack);
+        for (let row = this.getRow(box.yMin - this.slack); row <= rowMax; row++) {
+            for (let column = this.getColumn(box.xMin - this.slack); column <= columnMax; column++) {
+                const cell = this.cells[row * this.columns + column];
+                for (let i = 0; i < cell.length; i++) {
+                    indices.push(cell[i]);
+                }
+            }
+        }
+
+        // Cells are gathered row by row, so put the items back in the order they were added
+        indices.sort((a, b) => a - b);
+        return indices.map(index => this.items[index]);
+    }
+
+    /** Returns every item whose center is within the given distance of the given point (along with some farther ones) */
+    public query(x: number, y: number, distance: number): T[] {
+        return this.queryBounds({ xMin: x - distance, xMax: x + distance, yMin: y - distance, yMax: y + distance });
+    }
+
+    /**
+     * Returns the items in every cell that passes the given test (meant for queries covering much of the grid, where
+     * testing each cell is cheaper than testing each item); items are returned in the order they were added
+     */
+    public queryCells(test: (cell: GridCell) => boolean): T[] {
+        const radius = this.cellSize * Math.SQRT1_2 + this.slack + this.overflow;
+        const included = this.cells.map((cell, index) => cell.length > 0 && test({
+            x: this.bounds.xMin + (index % this.columns + 0.5) * this.cellSize,
+            y: this.bounds.yMin + (Math.floor(index / this.columns) + 0.5) * this.cellSize,
+            radius,
+        }));
+        return this.items.filter((item, index) => included[this.itemCells[index]]);
+    }
+}
@@ -0,0 +1,124 @@
+import { ArenaMap, builtInMaps } from "./arena-map";
+import { Environment, RobotState, WeaponType } from "./coliseum-interface";
+import { createRandom, deriveSeed } from "./random";
+import { captureFrame } from "./replay";
+import { BotInitializer, defaultRules, Projectile, Simulation, SimulationOptions, weapons } from "./simulation";
+
+// Plays crowded matches (eight robots and hundreds of projectiles) with and without the grid, checking that every frame
+// is identical and that the grid is actually faster (run with "npm run stress-check")
+
+const matchCount = 3;
+const seed = 1;
+const mineCount = 800;
+
+/** Sensors are on so that robots' environments are gathered using the grid too */
+const rules = { ...defaultRules, powerUps: true, sensors: true, timeLimit: 30 };
+const withoutGrid: SimulationOptions = { broadPhaseThreshold: Infinity };
+const withGrid: SimulationOptions = { broadPhaseThreshold: 0 };
+
+/** Overall, matches must run at least this many times faster with the grid than without it */
+const minimumSpeedup = 1.2;
+
+/**
+ * Robot that wanders around (turning faster the more projectiles it detects, and heading for any power-up it detects),
+ * firing every weapon in turn at the nearest enemy; what it does depends on everything it detects, so any difference
+ * in what robots detect changes the frames
+ */
+const BehaviorSprayer: BotInitializer = () => {
+    const weaponCycle: WeaponType[] = ["spread", "mine", "shot", "missile"];
+    let timer = 0;
+    return function (self: RobotState, environment: Environment) {
+        timer++;
+        const powerUp = environment.powerUps[0];
+        self.moveDirection = powerUp
+            ? Math.atan2(powerUp.y - self.y, powerUp.x - self.x)
+            : self.moveDirection + Math.PI / 90 * (1 + environment.enemyProjectiles.length % 3);
+        self.scanDirection -= Math.PI / 45;
+        self.move = true;
+        self.weapon = weaponCycle[Math.floor(timer / 30) % weaponCycle.length];
+        if (environment.enemy) {
+            self.shootDirection = Math.atan2(environment.enemy.y - self.y, environment.enemy.x - self.x);
+            self.shoot = true;
+        }
+    };
+};
+
+interface MatchRecord {
+    frames: string[];
+    result: string;
+    ticks: number;
+    maxEntities: number;
+    seconds: number;
+}
+
+function playMatch(matchSeed: number, map: ArenaMap, options: SimulationOptions): MatchRecord {
+    const simulation = new Simulation(Array(Simulation.maxBots).fill(BehaviorSprayer), matchSeed, map, rules, options);
+
+    // Scatter harmless mines (so the robots survive long enough to fire plenty of projectiles of their own) to crowd the
+    // battlefield from the start
+    const random = createRandom(matchSeed);
+    for (let i = 0; i < mineCount; i++) {
+        const x = Simulation.maxDistance * (2 * random() - 1);
+        const y = Simulation.maxDistance * (2 * random() - 1);
+        const source = simulation.bots[i % simulation.bots.length];
+        simulation.entities.push(new Projectile("mine", source, x, y, weapons.mine.radius, 0, 0, 0, weapons.mine.lifetime));
+    }
+
+    const frames: string[] = [];
+    let maxEntities = 0;
+    let milliseconds = 0;
+    while (!simulation.finished) {
+        const start = Date.now();
+        simulation.update();
+        milliseconds += Date.now() - start;
+
+        frames.push(JSON.stringify(captureFrame(simulation)));
+        maxEntities = Math.max(maxEntities, simulation.entities.length);
+    }
+
+    return {
+        frames,
+        result: JSON.stringify(simulation.result),
+        ticks: simulation.tick,
+        maxEntities,
+        seconds: milliseconds / 1000,
+    };
+}
+
+// Warm up the JIT (so that whichever runs first isn't penalized)
+playMatch(deriveSeed(seed, matchCount), builtInMaps[0], withoutGrid);
+playMatch(deriveSeed(seed, matchCount), builtInMaps[0], withGrid);
+
+let failures = 0;
+let referenceSeconds = 0;
+let candidateSeconds = 0;
+for (const map of builtInMaps) {
+    for (let i = 0; i < matchCount; i++) {
+        const matchSeed = deriveSeed(seed, i);
+        const reference = playMatch(matchSeed, map, withoutGrid);
+        const candidate = playMatch(matchSeed, map, withGrid);
+        referenceSeconds += reference.seconds;
+        candidateSeconds += candidate.seconds;
+
+        const mismatch = reference.frames.findIndex((frame, index) => frame !== candidate.frames[index]);
+        const identical = mismatch < 0 && reference.frames.length === candidate.frames.length && reference.result === candidate.result;
+        if (!identical) {
+            failures++;
+        }
+
+        const difference = identical ? "identical" : `DIFFERENT (first at frame ${(mismatch < 0) ? Math.min(reference.frames.length, candidate.frames.length) : mismatch})`;
+        console.log(`${map.name}, match ${i + 1}: ${reference.ticks} ticks, up to ${reference.maxEntities} entities; `
+            + `${reference.seconds.toFixed(2)} s without grid, ${candidate.seconds.toFixed(2)} s with grid; ${difference}`);
+    }
+}
+
+const speedup = referenceSeconds / candidateSeconds;
+console.log(`Total: ${referenceSeconds.toFixed(2)} s without grid, ${candidateSeconds.toFixed(2)} s with grid (${speedup.toFixed(2)}x)`);
+
+if (failures > 0) {
+    throw new Error(`${failures} match(es) played out differently with the grid`);
+}
+
+if (speedup < minimumSpeedup) {
+    throw new Error(`The grid only sped matches up by ${speedup.toFixed(2)}x (expected at least ${minimumSpeedup}x)`);
+}
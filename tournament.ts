@@ -0,0 +1,172 @@
+import { ArenaMap } from "./arena-map";
+import { deriveSeed } from "./random";
+import { BotInitializer, Simulation, SimulationRules } from "./simulation";
+
+// Round-robin tournaments (run headless, at full speed) with Elo ratings
+
+export interface TournamentEntrant {
+    name: string;
+
+    /** Creates a fresh instance of the robot for a match (given the robot's seed for that match) */
+    createInitializer: (seed: number) => BotInitializer;
+}
+
+export interface TournamentOptions {
+    /** Number of matches (each with a different seed) played for each pairing of entrants */
+    seedsPerPairing: number;
+
+    /** Seed from which each match's seed is derived */
+    seed: number;
+    map: ArenaMap;
+    rules: SimulationRules;
+}
+
+export interface TournamentMatch {
+    /** Indexes of the entrants (the first entrant played on the left) */
+    entrants: number[];
+    seed: number;
+
+    /** Index of the winning entrant (or null for a tie) */
+    winner: number | null;
+
+    /** Length of the match (from the end of the start timer until the result was decided, excluding the end timer) */
+    ticks: number;
+}
+
+export interface TournamentStanding {
+    name: string;
+    wins: number;
+    losses: number;
+    ties: number;
+    rating: number;
+}
+
+export interface TournamentResult {
+    /** When the tournament finished (as an ISO 8601 string) */
+    date: string;
+    names: string[];
+    seedsPerPairing: number;
+
+    /** Name of the map on which the matches were played */
+    mapName: string;
+    matches: TournamentMatch[];
+
+    /** Standings for each entrant (in entrant order) */
+    standings: TournamentStanding[];
+
+    /** headToHead[a][b] is the number of times entrant a beat entrant b */
+    headToHead: number[][];
+}
+
+export const initialRating = 1500;
+const ratingFactor = 32;
+
+function getExpectedScore(rating: number, opponentRating: number): number {
+    return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/** Computes Elo ratings by processing each match in order */
+export function calculateRatings(entrantCount: number, matches: TournamentMatch[]): number[] {
+    const ratings: number[] = [];
+    for (let i = 0; i < entrantCount; i++) {
+        ratings.push(initialRating);
+    }
+
+    for (const match of matches) {
+        const [a, b] = match.entrants;
+        const scoreA = (match.winner === null) ? 0.5 : ((match.winner === a) ? 1 : 0);
+        const expectedA = getExpectedScore(ratings[a], ratings[b]);
+        const delta = ratingFactor * (scoreA - expectedA);
+        ratings[a] += delta;
+        ratings[b] -= delta;
+    }
+
+    return ratings;
+}
+
+export class Tournament {
+    private pairings: { entrants: number[], seed: number }[] = [];
+    private matches: TournamentMatch[] = [];
+    private simulation: Simulation | null = null;
+
+    constructor(private entrants: TournamentEntrant[], private options: TournamentOptions) {
+        let index = 0;
+        for (let a = 0; a < entrants.length; a++) {
+            for (let b = a + 1; b < entrants.length; b++) {
+                for (let k = 0; k < options.seedsPerPairing; k++) {
+                    // Alternate sides between seeds
+                    this.pairings.push({
+                        entrants: (k % 2 === 0) ? [a, b] : [b, a],
+                        seed: deriveSeed(options.seed, index++),
+                    });
+                }
+            }
+        }
+    }
+
+    public get matchCount(): number {
+        return this.pairings.length;
+    }
+
+    public get completedMatchCount(): number {
+        return this.matches.length;
+    }
+
+    public get finished(): boolean {
+        return this.matches.length >= this.pairings.length;
+    }
+
+    /** Runs up to the given number of ticks (across matches); returns false once the tournament is finished */
+    public advance(ticks: number): boolean {
+        for (let i = 0; i < ticks && !this.finished; i++) {
+            const pairing = this.pairings[this.matches.length];
+            if (!this.simulation) {
+                this.simulation = new Simulation(pairing.entrants.map((entrant, index) => this.entrants[entrant].createInitializer(Simulation.getBotSeed(pairing.seed, index))), pairing.seed, this.options.map, this.options.rules);
+            }
+
+            const simulation = this.simulation;
+            simulation.update();
+            if (simulation.finished) {
+                const winner = simulation.result.winner;
+                this.matches.push({
+                    entrants: pairing.entrants,
+                    seed: pairing.seed,
+                    winner: (winner === null) ? null : pairing.entrants[winner],
+                    ticks: Simulation.getMatchLength(simulation.result, simulation.rules),
+                });
+                this.simulation = null;
+            }
+        }
+        return !this.finished;
+    }
+
+    public getResult(): TournamentResult {
+        const names = this.entrants.map(e => e.name);
+        const ratings = calculateRatings(names.length, this.matches);
+        const standings = names.map<TournamentStanding>((name, index) => ({ name, wins: 0, losses: 0, ties: 0, rating: ratings[index] }));
+        const headToHead = names.map(a => names.map(b => 0));
+
+        for (const match of this.matches) {
+            const [a, b] = match.entrants;
+            if (match.winner === null) {
+                standings[a].ties++;
+                standings[b].ties++;
+            } else {
+                const loser = (match.winner === a) ? b : a;
+                standings[match.winner].wins++;
+                standings[loser].losses++;
+                headToHead[match.winner][loser]++;
+            }
+        }
+
+        return {
+            date: new Date().toISOString(),
+            names,
+            seedsPerPairing: this.options.seedsPerPairing,
+            mapName: this.options.map.name,
+            matches: this.matches.slice(),
+            standings,
+            headToHead,
+        };
+    }
+}
@@ -0,0 +1,206 @@
+import { Environment, RobotState } from "./coliseum-interface";
+import { CompiledBot } from "./bot-compiler";
+import { ErrorResponse, WorkerRequest, WorkerResponse } from "./bot-worker-protocol";
+import { DebugShape, LogMessage, StepBudget, StepBudgetExceededError } from "./scripted-bot";
+import { BotForfeitError, BotInitializer } from "./simulation";
+
+// Main thread side of a robot whose code runs in its own Web Worker (see bot-worker.ts)
+
+interface PendingThink {
+    id: number;
+    state: RobotState;
+    timer: number;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+function createError(response: ErrorResponse): Error {
+    const error = response.forfeit ? new BotForfeitError(response.message) : new Error(response.message);
+    error.name = response.name;
+    return error;
+}
+
+/** Receives reports about what a robot does in its worker */
+export interface WorkerBotListener {
+    /** Called when the robot's turn is skipped for exceeding its step budget */
+    reportOverrun(error: StepBudgetExceededError): void;
+
+    /** Called with console output from the robot's code */
+    reportMessages(messages: LogMessage[]): void;
+
+    /** Called with the robot's debug drawing each time it finishes thinking */
+    reportDrawing(shapes: DebugShape[]): void;
+
+    /**
+     * Called with errors from think calls that missed their deadline (the robot has already idled for that tick; if the
+     * error is a BotForfeitError, the robot forfeits on its next turn)
+     */
+    reportLateError(error: Error): void;
+}
+
+export class WorkerBot {
+    /** Default time (in milliseconds) a robot has to respond each tick before it is treated as idle */
+    public static readonly defaultDeadline = 15;
+
+    private worker: Worker;
+    private nextId = 0;
+    private pendingThink: PendingThink | null = null;
+
+    /** Id of the think request the worker is still working on (even if it has missed its deadline), or null if none */
+    private busyId: number | null = null;
+    private pendingInitialize: { resolve: () => void, reject: (error: Error) => void } | null = null;
+
+    /** Set once the worker has failed, or the robot forfeited too late (after which the robot forfeits instead of thinking) */
+    private failure: BotForfeitError | null = null;
+
+    constructor(private listener: WorkerBotListener, private deadline: number = WorkerBot.defaultDeadline) {
+        this.worker = new Worker("./bot-worker.ts");
+        this.worker.onmessage = this.handleMessage;
+        this.worker.onerror = this.handleError;
+    }
+
+    private send(request: WorkerRequest) {
+        this.worker.postMessage(request);
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const response = event.data as WorkerResponse;
+        if (response.type !== "initialized" && response.id !== null && response.id === this.busyId) {
+            this.busyId = null;
+        }
+
+        // Report output even from responses that missed their deadline
+        if (response.messages.length > 0) {
+            this.listener.reportMessages(response.messages);
+        }
+
+        switch (response.type) {
+            case "initialized":
+                if (this.pendingInitialize) {
+                    this.pendingInitialize.resolve();
+                    this.pendingInitialize = null;
+                }
+                break;
+
+            case "thought":
+                if (this.pendingThink && this.pendingThink.id === response.id) {
+                    const pending = this.pendingThink;
+                    Object.assign(pending.state, response.state);
+                    this.settleThink();
+                    pending.resolve();
+
+                    this.listener.reportDrawing(response.shapes);
+                    if (response.overrun) {
+                        this.listener.reportOverrun(new StepBudgetExceededError(response.overrun));
+                    }
+                }
+                break;
+
+            case "error":
+                if (response.id === null) {
+                    if (this.pendingInitialize) {
+                        this.pendingInitialize.reject(createError(response));
+                        this.pendingInitialize = null;
+                    }
+                } else if (this.pendingThink && this.pendingThink.id === response.id) {
+                    const pending = this.pendingThink;
+                    this.settleThink();
+                    pending.reject(createError(response));
+                } else {
+                    const error = createError(response);
+                    if (error instanceof BotForfeitError) {
+                        this.failure = error;
+                    }
+                    this.listener.reportLateError(error);
+                }
+                break;
+        }
+    };
+
+    /** Called if the worker fails outside of a request (e.g. if its script fails to load), so it will never respond */
+    private handleError = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.failure = new BotForfeitError(`The robot's worker failed: ${event.message || "unknown error"}`);
+        this.busyId = null;
+
+        if (this.pendingInitialize) {
+            this.pendingInitialize.reject(this.failure);
+            this.pendingInitialize = null;
+        }
+
+        if (this.pendingThink) {
+            const pending = this.pendingThink;
+            this.settleThink();
+            pending.reject(this.failure);
+        }
+    };
+
+    private settleThink() {
+        window.clearTimeout(this.pendingThink.timer);
+        this.pendingThink = null;
+    }
+
+    /** Runs the robot's (compiled) code in the worker (rejecting on errors) */
+    public initialize(bot: CompiledBot, seed: number, budget: StepBudget): Promise<void> {
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+
+        return new Promise((resolve, reject) => {
+            this.pendingInitialize = { resolve, reject };
+            this.send({ type: "initialize", bot, seed, budget });
+        });
+    }
+
+    /**
+     * Asks the worker to think; if it misses the deadline, the robot idles (no moving or shooting) for this tick, and
+     * also for any later ticks that start before the worker catches up (so that requests don't pile up in the worker).
+     * Once the worker itself has failed, this rejects with a BotForfeitError (so the robot forfeits).
+     */
+    public think(state: RobotState, environment: Environment): Promise<void> {
+        if (this.failure) {
+            WorkerBot.idle(state);
+            return Promise.reject(this.failure);
+        }
+
+        if (this.busyId !== null) {
+            WorkerBot.idle(state);
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            const timer = window.setTimeout(() => {
+                if (this.pendingThink && this.pendingThink.id === id) {
+                    this.pendingThink = null;
+                    WorkerBot.idle(state);
+                    resolve();
+                }
+            }, this.deadline);
+
+            this.pendingThink = { id, state, timer, resolve, reject };
+            this.busyId = id;
+            this.send({ type: "think", id, state, environment });
+        });
+    }
+
+    private static idle(state: RobotState) {
+        state.move = false;
+        state.shoot = false;
+    }
+
+    public getInitializer(): BotInitializer {
+        return () => (self: RobotState, environment: Environment) => this.think(self, environment);
+    }
+
+    /** Stops the worker (the robot idles for any think call still in progress, so that nothing waits on it forever) */
+    public terminate() {
+        if (this.pendingThink) {
+            const pending = this.pendingThink;
+            this.settleThink();
+            WorkerBot.idle(pending.state);
+            pending.resolve();
+        }
+        this.worker.terminate();
+    }
+}